@@ -1,6 +1,6 @@
 
-import React, { useState, useEffect, useCallback, useRef } from 'react';
-import { Chess } from 'chess.js';
+import React, { useState, useEffect, useCallback, useRef, useMemo } from 'react';
+import { DEFAULT_POSITION } from 'chess.js';
 import { Chessboard } from 'react-chessboard';
 import { 
   Trophy, 
@@ -12,74 +12,323 @@ import {
   RotateCcw,
   ChevronRight,
   ChevronLeft,
+  ChevronsLeft,
+  ChevronsRight,
   Loader2,
   BrainCircuit,
   MessageSquare,
   Send,
-  X
+  X,
+  ArrowUpToLine,
+  Trash2,
+  Download,
+  Copy,
+  Check,
+  Settings,
+  Square,
+  Library,
+  BarChart3,
+  SlidersHorizontal,
+  Pencil,
+  Puzzle,
+  Eye,
+  Swords,
+  Clock,
+  FileText
 } from 'lucide-react';
-import { FullAnalysis, InputMode, LichessGameSummary, ChatMessage } from './types';
-import { analyzeGame, chatWithAssistant } from './services/geminiService';
-import { fetchRecentLichessGames, fetchLichessGamePgn } from './services/lichessService';
+import { AnalysisPhase, PlayerColor, PlayerPerspective, FullAnalysis, LinePreview, MoveClock, MoveSuggestion, InputMode, OnlineGameSource, OnlineGameSummary, OnlineGamesOptions, ChatMessage, MoveAnnotation, ChessEngine, EngineEvaluation, MoveTree, PgnDatabaseGame, LlmSettings, LibraryGame, LichessGameFilters } from './types';
+import { analyzeGame, chatWithAssistant } from './services/coachService';
+import { fetchLichessGamePgn, streamLichessGames } from './services/lichessService';
+import { fetchChessComGames } from './services/chessComService';
+import { classifyOpening, getBookMoves } from './services/openingService';
+import { createEngine, evaluatePositions } from './services/engineService';
+import { buildAnnotatedPgn, getGameKey, parsePgnDatabase, pgnFileName, playerColor, playerRating, readPgnHeaders } from './services/pgnService';
+import { VARIANT_LABELS, createChess, detectVariant, isPlayableVariant, unsupportedVariantMessage } from './services/variantService';
+import { copyToClipboard, downloadTextFile } from './services/fileService';
+import { buildHtmlReport, buildMarkdownReport, reportFileName } from './services/gameReportService';
+import { LLM_PROVIDERS, applyLlmSettings, loadLlmSettings } from './services/llmService';
+import {
+  deleteLibraryGame,
+  exportLibrary,
+  hasSameContent,
+  importLibrary,
+  listLibraryGames,
+  saveLibraryGame
+} from './services/libraryService';
+import EngineEvalPanel from './components/EngineEvalPanel';
+import EvaluationGraph from './components/EvaluationGraph';
+import MoveTreeView from './components/MoveTreeView';
+import PgnGamePicker from './components/PgnGamePicker';
+import SettingsPanel from './components/SettingsPanel';
+import ChatMessageBubble from './components/ChatMessageBubble';
+import GameLibrary from './components/GameLibrary';
+import PlayerReportPanel from './components/PlayerReportPanel';
+import LichessFilters from './components/LichessFilters';
+import BoardEditor from './components/BoardEditor';
+import OpeningExplorer from './components/OpeningExplorer';
+import CoachText from './components/CoachText';
+import SuggestedLines from './components/SuggestedLines';
+import LinePreviewBar from './components/LinePreviewBar';
+import PuzzleTrainer from './components/PuzzleTrainer';
+import PlayOutPanel from './components/PlayOutPanel';
+import TimeChart from './components/TimeChart';
+import { CLASSIFICATION_STYLES } from './components/classificationStyles';
+import {
+  MoveInput,
+  addMove,
+  createMoveTree,
+  deleteVariation,
+  findNode,
+  getLineEnd,
+  getMainLine,
+  getNodePath,
+  getParentNode,
+  moveNumberLabel,
+  parsePgnToTree,
+  promoteVariation,
+  replayLine,
+  addLine,
+  treeToPgn
+} from './services/moveTree';
+import { samePosition } from './services/fenService';
+import { ErrorTimeUsage, buildClockProfile, errorTimeUsage, formatClock, formatDuration } from './services/clockService';
+
+const INPUT_MODE_LABELS: Record<InputMode, string> = {
+  manual: 'MANUAL',
+  fen: 'FEN',
+  pgn: 'PGN',
+  lichess: 'LICHESS',
+  chesscom: 'CHESS.COM'
+};
+
+const ONLINE_SOURCE_LABELS: Record<OnlineGameSource, string> = {
+  lichess: 'Lichess',
+  chesscom: 'Chess.com'
+};
+
+// Variant as shown in online game lists, flagging the ones that cannot be opened.
+const variantLabel = (listed: string) => {
+  const variant = detectVariant({}, listed);
+  const label = variant === 'other' ? listed : VARIANT_LABELS[variant];
+  return isPlayableVariant(variant) ? label : `${label} (unsupported)`;
+};
 
 const App: React.FC = () => {
-  const [game, setGame] = useState(new Chess());
-  const [pgn, setPgn] = useState('');
+  const [tree, setTree] = useState<MoveTree>(() => createMoveTree());
+  const [currentNodeId, setCurrentNodeId] = useState(() => tree.root.id);
   const [username, setUsername] = useState('');
   const [inputMode, setInputMode] = useState<InputMode>('manual');
+  const [isEditingPosition, setIsEditingPosition] = useState(false);
   
-  const [recentGames, setRecentGames] = useState<LichessGameSummary[]>([]);
-  const [isSearchingLichess, setIsSearchingLichess] = useState(false);
+  const [recentGames, setRecentGames] = useState<OnlineGameSummary[]>([]);
+  const [gameListSource, setGameListSource] = useState<OnlineGameSource>('lichess');
+  const [isSearchingGames, setIsSearchingGames] = useState(false);
+  const [lichessFilters, setLichessFilters] = useState<LichessGameFilters>({});
+  const [showLichessFilters, setShowLichessFilters] = useState(false);
+  // Pagination cursor for "load more"; null once every game is listed.
+  const [gameListCursor, setGameListCursor] = useState<Pick<OnlineGamesOptions, 'until' | 'untilId'> | null>(null);
+  const gameListAbortRef = useRef<AbortController | null>(null);
   const [showGameSelector, setShowGameSelector] = useState(false);
+  const [showPlayerReport, setShowPlayerReport] = useState(false);
+  const [showPuzzles, setShowPuzzles] = useState(false);
+  const [playOutFen, setPlayOutFen] = useState<string | null>(null);
+  // Set when a game is opened only to be analysed, so the analysis starts once it is displayed.
+  const analyzeOnOpenRef = useRef(false);
+
+  const [gameSource, setGameSource] = useState<InputMode>('manual');
+  const [pgnDatabase, setPgnDatabase] = useState<{ fileName: string; games: PgnDatabaseGame[] } | null>(null);
 
   const [isAnalyzing, setIsAnalyzing] = useState(false);
   const [analysis, setAnalysis] = useState<FullAnalysis | null>(null);
-  const [moveHistory, setMoveHistory] = useState<string[]>([]);
-  const [currentMoveIndex, setCurrentMoveIndex] = useState(-1);
+  const [analysisCachedAt, setAnalysisCachedAt] = useState<number | null>(null); // set when the shown analysis came from the cache
   const [error, setError] = useState<string | null>(null);
+  const [pgnCopied, setPgnCopied] = useState(false);
+
+  const engineRef = useRef<ChessEngine | null>(null);
+  const [engineName, setEngineName] = useState<string | null>(null);
+  const [engineEvals, setEngineEvals] = useState<Record<string, EngineEvaluation>>({});
+  const engineEvalsRef = useRef(engineEvals);
+  engineEvalsRef.current = engineEvals;
+
+  const [llmSettings, setLlmSettings] = useState<LlmSettings>(loadLlmSettings);
+  const [showSettings, setShowSettings] = useState(false);
+
+  const [libraryGames, setLibraryGames] = useState<LibraryGame[]>([]);
+  const libraryGamesRef = useRef(libraryGames);
+  libraryGamesRef.current = libraryGames;
+  // Library record of the open game; null until it is first saved.
+  const libraryIdRef = useRef<string | null>(null);
+  const [showLibrary, setShowLibrary] = useState(false);
 
   const [activeTab, setActiveTab] = useState<'analysis' | 'chat'>('analysis');
-  const [chatMessages, setChatMessages] = useState<ChatMessage[]>([]);
+  // Chat threads are kept per game, keyed by getGameKey.
+  const [chatThreads, setChatThreads] = useState<Record<string, ChatMessage[]>>({});
   const [userQuery, setUserQuery] = useState('');
   const [isThinking, setIsThinking] = useState(false);
   const chatEndRef = useRef<HTMLDivElement>(null);
+  const chatAbortRef = useRef<AbortController | null>(null);
+
+  const mainLine = useMemo(() => getMainLine(tree), [tree]);
+  const moveHistory = useMemo(() => mainLine.map(n => n.san), [mainLine]);
+  const positionFens = useMemo(() => mainLine.map(n => n.fen), [mainLine]);
+  const pgn = useMemo(() => (mainLine.length ? treeToPgn(tree) : ''), [tree, mainLine]);
+  const clockProfile = useMemo(() => buildClockProfile(mainLine, tree.headers), [mainLine, tree.headers]);
+  const openingInfo = useMemo(() => classifyOpening(positionFens, tree.root.fen), [positionFens, tree.root.fen]);
+  // Every position is stored on its node, so moving through the game is a lookup rather than a replay.
+  const currentNode = useMemo(() => findNode(tree, currentNodeId) || tree.root, [tree, currentNodeId]);
+  const game = useMemo(() => createChess(currentNode.fen), [currentNode.fen]);
+  const onMainLine = currentNode === tree.root || mainLine.includes(currentNode);
+  const currentMoveIndex = currentNode.ply;
+  // A set-up position can be analysed before any move is played.
+  const canAnalyze = moveHistory.length > 0 || !samePosition(tree.root.fen, DEFAULT_POSITION);
+  // In a side variation, the main-line move it branches from (-1 for the start position).
+  const mainLinePly = useMemo(() => {
+    if (onMainLine) return currentNode.ply;
+    const branch = [...getNodePath(tree, currentNode.id)].reverse().find(n => mainLine.includes(n));
+    return branch ? branch.ply : -1;
+  }, [tree, mainLine, currentNode, onMainLine]);
+  // Side-variation positions are evaluated on demand, main-line ones in bulk.
+  const variationFen = onMainLine ? null : currentNode.fen;
+  const gameKey = useMemo(() => getGameKey(tree), [tree]);
+  const chatMessages = chatThreads[gameKey] || [];
+  // The side the user played: detected from the username and the game's headers, or picked by hand.
+  const detectedColor = playerColor(tree.headers, username);
+  const [perspectiveColor, setPerspectiveColor] = useState<PlayerColor | null>(null);
+  const perspective: PlayerPerspective | null = perspectiveColor
+    ? { color: perspectiveColor, rating: playerRating(tree.headers, perspectiveColor) }
+    : null;
+  const [linePreview, setLinePreview] = useState<LinePreview | null>(null);
+  // Coach lines that start from the displayed position: the analysis's and those of the latest reply that suggested any.
+  const boardSuggestions = useMemo(() => {
+    const lastReply = [...chatMessages].reverse().find(m => m.role === 'assistant' && m.suggestions?.length);
+    return [...(analysis?.suggestions || []), ...(lastReply?.suggestions || [])].filter(s => samePosition(s.fen, currentNode.fen));
+  }, [analysis, chatMessages, currentNode.fen]);
+  const gameKeyRef = useRef(gameKey);
+  gameKeyRef.current = gameKey;
 
   useEffect(() => {
     chatEndRef.current?.scrollIntoView({ behavior: 'smooth' });
   }, [chatMessages]);
 
   useEffect(() => {
-    try {
-      const tempGame = new Chess();
-      if (pgn) {
-        tempGame.loadPgn(pgn);
-        const history = tempGame.history();
-        setMoveHistory(history);
-        setCurrentMoveIndex(history.length - 1);
-        setGame(tempGame);
+    setPerspectiveColor(detectedColor);
+  }, [gameKey, detectedColor]);
+
+  // A preview belongs to the position it was opened from.
+  useEffect(() => {
+    setLinePreview(null);
+  }, [currentNodeId, tree]);
+
+  useEffect(() => {
+    let disposed = false;
+    createEngine().then(engine => {
+      if (disposed) {
+        engine.dispose();
+        return;
       }
+      engineRef.current = engine;
+      setEngineName(engine.name);
+    });
+    return () => {
+      disposed = true;
+      engineRef.current?.dispose();
+      engineRef.current = null;
+    };
+  }, []);
+
+  // Evaluate every position of the game in the background, skipping ones already known.
+  useEffect(() => {
+    const engine = engineRef.current;
+    if (!engine) return;
+    const fens = [tree.root.fen, ...positionFens];
+    if (variationFen) fens.unshift(variationFen);
+    const pending = fens.filter(fen => !engineEvalsRef.current[fen]);
+    if (pending.length === 0) return;
+    const controller = new AbortController();
+    evaluatePositions(
+      engine,
+      pending,
+      evaluation => setEngineEvals(prev => ({ ...prev, [evaluation.fen]: evaluation })),
+      controller.signal
+    ).catch(err => console.error("Engine evaluation failed:", err));
+    return () => controller.abort();
+  }, [tree.root.fen, positionFens, variationFen, engineName]);
+
+  useEffect(() => {
+    listLibraryGames().then(setLibraryGames).catch(err => setError(err.message));
+  }, []);
+
+  // Saves the open game to the library shortly after its moves, analysis or chat change.
+  useEffect(() => {
+    if (mainLine.length === 0) return;
+    const timer = setTimeout(() => {
+      const id = libraryIdRef.current || (gameKey.startsWith('pgn:') ? gameKey : `manual:${Date.now()}`);
+      const existing = libraryGamesRef.current.find(g => g.id === id);
+      const content = {
+        source: gameSource,
+        headers: tree.headers,
+        pgn: treeToPgn(tree),
+        analysis,
+        chat: chatMessages.filter(m => m.status !== 'streaming')
+      };
+      libraryIdRef.current = id;
+      if (existing && hasSameContent(existing, content)) return;
+      const now = Date.now();
+      const entry: LibraryGame = { id, ...content, tags: existing?.tags || [], createdAt: existing?.createdAt || now, updatedAt: now };
+      saveLibraryGame(entry)
+        .then(() => setLibraryGames(prev => [entry, ...prev.filter(g => g.id !== id)]))
+        .catch(err => setError(err.message));
+    }, 800);
+    return () => clearTimeout(timer);
+  }, [tree, analysis, chatMessages, gameSource]);
+
+  // Shows a game together with whatever the library remembers about it.
+  const openTree = (newTree: MoveTree, source: InputMode, saved?: LibraryGame) => {
+    const line = getMainLine(newTree);
+    const key = getGameKey(newTree);
+    setTree(newTree);
+    setCurrentNodeId(line.length ? line[line.length - 1].id : newTree.root.id);
+    setGameSource(source);
+    setIsEditingPosition(false);
+    setAnalysis(saved?.analysis || null);
+    setAnalysisCachedAt(null);
+    if (saved?.chat.length) setChatThreads(prev => (prev[key] ? prev : { ...prev, [key]: saved.chat }));
+    libraryIdRef.current = saved?.id || null;
+    setError(null);
+  };
+
+  /**
+   * Re-importing a game already in the library reopens the saved copy, with
+   * its variations. `listedVariant` is the variant an online game list gave.
+   */
+  const loadGamePgn = (pgnText: string, source: InputMode, listedVariant?: string) => {
+    const headers = readPgnHeaders(pgnText);
+    const variant = detectVariant(headers, listedVariant);
+    if (!isPlayableVariant(variant)) {
+      setError(unsupportedVariantMessage(variant, headers.Variant || listedVariant));
+      return;
+    }
+    try {
+      const newTree = parsePgnToTree(pgnText);
+      const saved = libraryGamesRef.current.find(g => g.id === getGameKey(newTree));
+      openTree(saved ? parsePgnToTree(saved.pgn) : newTree, source, saved);
     } catch (err) {
       setError("Invalid PGN data.");
     }
-  }, [pgn]);
+  };
 
-  const makeAMove = useCallback((move: any) => {
-    try {
-      const gameCopy = new Chess(game.fen());
-      const result = gameCopy.move(move);
-      if (result) {
-        setGame(gameCopy);
-        setPgn(gameCopy.pgn());
-        setError(null);
-        return true;
-      }
-    } catch (e) {
-      return false;
-    }
-    return false;
-  }, [game]);
+  // Plays from the selected node: at the end of a line this extends it, anywhere else it opens a variation.
+  const makeAMove = useCallback((move: MoveInput) => {
+    const added = addMove(tree, currentNodeId, move);
+    if (!added) return false;
+    setTree(added.tree);
+    setCurrentNodeId(added.node.id);
+    setError(null);
+    return true;
+  }, [tree, currentNodeId]);
 
-  const onDrop = (sourceSquare: string, targetSquare: string) => {
+  const onDrop = (sourceSquare: string, targetSquare: string | null) => {
+    if (!targetSquare) return false;
     const move = makeAMove({
       from: sourceSquare,
       to: targetSquare,
@@ -88,41 +337,118 @@ const App: React.FC = () => {
     return move;
   };
 
+  // Shows a coach line on the board, ending on its last move.
+  const previewLine = (suggestion: MoveSuggestion) => {
+    const moves = replayLine(suggestion.fen, suggestion.moves);
+    if (moves.length) setLinePreview({ suggestion, moves, step: moves.length });
+  };
+
+  // Where a kept preview branches off: the latest position on the way to the selected move that the line starts from.
+  const previewParent = linePreview
+    ? [tree.root, ...getNodePath(tree, currentNode.id)].reverse().find(n => samePosition(n.fen, linePreview.suggestion.fen))
+    : undefined;
+
+  // Adds the previewed line to the game as a variation.
+  const keepPreviewLine = () => {
+    if (!linePreview || !previewParent) return;
+    const added = addLine(tree, previewParent.id, linePreview.moves.map(m => m.san));
+    if (!added) return;
+    setTree(added.tree);
+    setCurrentNodeId(added.node.id);
+    setLinePreview(null);
+  };
+
+  const previewMove = linePreview && linePreview.step > 0 ? linePreview.moves[linePreview.step - 1] : null;
+  const nextPreviewMove = linePreview?.moves[linePreview.step];
+  const boardFen = linePreview ? previewMove?.fen || linePreview.suggestion.fen : currentNode.fen;
+  const boardArrows = linePreview
+    ? nextPreviewMove ? [{ startSquare: nextPreviewMove.from, endSquare: nextPreviewMove.to, color: 'rgba(99, 102, 241, 0.8)' }] : []
+    : boardSuggestions.flatMap(s => replayLine(s.fen, s.moves.slice(0, 1)))
+      .map(m => ({ startSquare: m.from, endSquare: m.to, color: 'rgba(99, 102, 241, 0.6)' }));
+  const boardSquareStyles: Record<string, React.CSSProperties> = previewMove
+    ? { [previewMove.from]: { backgroundColor: 'rgba(99, 102, 241, 0.35)' }, [previewMove.to]: { backgroundColor: 'rgba(99, 102, 241, 0.5)' } }
+    : {};
+
   const handlePgnUpload = (e: React.ChangeEvent<HTMLInputElement>) => {
     const file = e.target.files?.[0];
     if (file) {
       const reader = new FileReader();
       reader.onload = (event) => {
         const content = event.target?.result as string;
-        setPgn(content);
+        const games = parsePgnDatabase(content);
         setInputMode('pgn');
+        if (games.length === 0) {
+          setError("No games found in the PGN file.");
+        } else if (games.length === 1 && !games[0].error) {
+          loadGamePgn(games[0].pgn, 'pgn');
+        } else {
+          setPgnDatabase({ fileName: file.name, games });
+        }
       };
       reader.readAsText(file);
     }
+    // Allow re-selecting the same file later.
+    e.target.value = '';
+  };
+
+  const selectPgnDatabaseGame = (selected: PgnDatabaseGame) => {
+    setPgnDatabase(null);
+    loadGamePgn(selected.pgn, 'pgn');
   };
 
-  const handleLichessSearch = async () => {
-    if (!username) return;
-    setIsSearchingLichess(true);
+  // Lists a page of online games, showing each one as soon as it arrives.
+  const loadOnlineGames = async (source: OnlineGameSource, cursor?: Pick<OnlineGamesOptions, 'until' | 'untilId'>) => {
+    gameListAbortRef.current?.abort();
+    const controller = new AbortController();
+    gameListAbortRef.current = controller;
+    setIsSearchingGames(true);
     setError(null);
+    setGameListSource(source);
+    if (!cursor) setRecentGames([]);
+    setShowGameSelector(true);
     try {
-      const games = await fetchRecentLichessGames(username);
-      setRecentGames(games);
-      setShowGameSelector(true);
+      const options = {
+        ...cursor,
+        signal: controller.signal,
+        onGame: (game: OnlineGameSummary) => setRecentGames(prev => [...prev, game])
+      };
+      const page = source === 'chesscom'
+        ? await fetchChessComGames(username, options)
+        : await streamLichessGames(username, lichessFilters, options);
+      setGameListCursor(page.nextUntil === null ? null : { until: page.nextUntil, untilId: page.nextUntilId });
     } catch (err: any) {
+      if (controller.signal.aborted) return;
       setError(err.message);
+      if (!cursor) setShowGameSelector(false);
     } finally {
-      setIsSearchingLichess(false);
+      if (gameListAbortRef.current === controller) {
+        gameListAbortRef.current = null;
+        setIsSearchingGames(false);
+      }
     }
   };
 
-  const selectLichessGame = async (gameId: string) => {
-    setIsAnalyzing(true);
+  const handleGameSearch = () => {
+    if (username) loadOnlineGames(inputMode === 'chesscom' ? 'chesscom' : 'lichess');
+  };
+
+  const closeGameSelector = () => {
+    gameListAbortRef.current?.abort();
     setShowGameSelector(false);
+  };
+
+  const selectOnlineGame = async (summary: OnlineGameSummary) => {
+    setIsAnalyzing(true);
+    closeGameSelector();
     try {
-      const pgnData = await fetchLichessGamePgn(gameId);
-      setPgn(pgnData);
-      setInputMode('lichess');
+      // Chess.com listings carry the PGN; only Lichess games are fetched separately.
+      let pgnData = summary.pgn;
+      if (!pgnData) {
+        if (summary.source !== 'lichess') throw new Error(`This ${ONLINE_SOURCE_LABELS[summary.source]} game came without its PGN, so it cannot be opened.`);
+        pgnData = await fetchLichessGamePgn(summary.id);
+      }
+      loadGamePgn(pgnData, summary.source, summary.variant);
+      setInputMode(summary.source);
     } catch (err: any) {
       setError(err.message);
     } finally {
@@ -130,17 +456,23 @@ const App: React.FC = () => {
     }
   };
 
-  const startAnalysis = async () => {
-    if (!pgn && moveHistory.length === 0) {
-      setError("Please input some moves or upload a game first.");
+  // `refresh` bypasses the analysis cache.
+  const startAnalysis = async (refresh = false) => {
+    if (!canAnalyze) {
+      setError("Please input some moves, set up a position or upload a game first.");
       return;
     }
     setIsAnalyzing(true);
     setAnalysis(null);
+    setAnalysisCachedAt(null);
     setError(null);
+    const analysedKey = gameKey;
     try {
-      const result = await analyzeGame(pgn || game.pgn());
-      setAnalysis(result);
+      const result = await analyzeGame(pgn || treeToPgn(tree), engineEvals, { refresh, perspective });
+      // Drop the result if another game was opened while it was running.
+      if (gameKeyRef.current !== analysedKey) return;
+      setAnalysis(result.analysis);
+      setAnalysisCachedAt(result.cachedAt);
       setActiveTab('analysis');
     } catch (err: any) {
       setError("Analysis failed. Please try again.");
@@ -149,54 +481,274 @@ const App: React.FC = () => {
     }
   };
 
+  useEffect(() => {
+    if (!analyzeOnOpenRef.current) return;
+    analyzeOnOpenRef.current = false;
+    startAnalysis();
+  }, [gameKey]);
+
+  // Opens a finished play-out as its own game, from the position it started at, and analyses it.
+  const analyzePlayOut = (startFen: string, moves: string[], headers: Record<string, string>) => {
+    // A play-out keeps the variant of the game it started from.
+    const base = createMoveTree(startFen, tree.headers.Variant ? { Variant: tree.headers.Variant, ...headers } : headers);
+    openTree(addLine(base, base.root.id, moves)?.tree || base, 'manual');
+    setPlayOutFen(null);
+    analyzeOnOpenRef.current = true;
+  };
+
+  const annotationsByPly = new Map<number, MoveAnnotation>(
+    (analysis?.moveAnnotations || []).map(a => [a.ply, a])
+  );
+  const currentAnnotation = onMainLine && annotationsByPly.get(currentMoveIndex)?.san === currentNode.san
+    ? annotationsByPly.get(currentMoveIndex)
+    : undefined;
+  const gameFens = [tree.root.fen, ...positionFens];
+  // Main line that move references in coach text are checked against.
+  const gameLine = useMemo(() => ({ fens: [tree.root.fen, ...positionFens], history: moveHistory }), [tree.root.fen, positionFens, moveHistory]);
+  const engineProgress = {
+    done: gameFens.filter(fen => engineEvals[fen]).length,
+    total: gameFens.length
+  };
+
+  const selectInputMode = (mode: InputMode) => {
+    setInputMode(mode);
+    setIsEditingPosition(mode === 'fen');
+  };
+
+  // Starts a new game from a set-up position; the PGN export then carries SetUp/FEN headers.
+  const startFromPosition = (fen: string) => {
+    openTree(createMoveTree(fen), 'fen');
+  };
+
   const resetGame = () => {
-    setGame(new Chess());
-    setPgn('');
-    setMoveHistory([]);
-    setCurrentMoveIndex(-1);
+    const newTree = createMoveTree();
+    setTree(newTree);
+    setCurrentNodeId(newTree.root.id);
     setAnalysis(null);
-    setChatMessages([]);
+    setAnalysisCachedAt(null);
+    setChatThreads(({ [gameKey]: _, ...rest }) => rest);
+    setGameSource('manual');
+    libraryIdRef.current = null;
     setError(null);
   };
 
+  // Selects a main-line ply; -1 is the start position.
   const navigateToMove = (index: number) => {
-    const tempGame = new Chess();
-    if (pgn) {
-      tempGame.loadPgn(pgn);
-      const history = tempGame.history();
-      const newGame = new Chess();
-      for (let i = 0; i <= index; i++) {
-        newGame.move(history[i]);
+    setCurrentNodeId(index < 0 ? tree.root.id : (mainLine[index] || mainLine[mainLine.length - 1]).id);
+  };
+
+  const goBack = () => {
+    setCurrentNodeId((getParentNode(tree, currentNode.id) || tree.root).id);
+  };
+
+  const goForward = () => {
+    if (currentNode.children.length) setCurrentNodeId(currentNode.children[0].id);
+  };
+
+  const goToStart = () => setCurrentNodeId(tree.root.id);
+
+  // To the end of the displayed line, which may be a variation.
+  const goToEnd = () => setCurrentNodeId(getLineEnd(currentNode).id);
+
+  const dialogOpen = showGameSelector || showPlayerReport || showPuzzles || !!playOutFen || !!pgnDatabase ||
+    showSettings || showLibrary || isEditingPosition;
+
+  /**
+   * Arrow keys step through the moves, Home and End jump to the start and
+   * the end of the line. With a line preview open they step through the
+   * preview instead, and Escape closes it. Ignored while typing or in a dialog.
+   */
+  const handleNavigationKeyRef = useRef<(event: KeyboardEvent) => void>(() => {});
+  handleNavigationKeyRef.current = (event: KeyboardEvent) => {
+    if (event.altKey || event.ctrlKey || event.metaKey || dialogOpen) return;
+    const target = event.target as HTMLElement | null;
+    if (target && (target.isContentEditable || /^(INPUT|TEXTAREA|SELECT)$/.test(target.tagName))) return;
+    const preview = linePreview;
+    const actions: Record<string, () => void> = preview
+      ? {
+        ArrowLeft: () => setLinePreview({ ...preview, step: Math.max(0, preview.step - 1) }),
+        ArrowRight: () => setLinePreview({ ...preview, step: Math.min(preview.moves.length, preview.step + 1) }),
+        Home: () => setLinePreview({ ...preview, step: 0 }),
+        End: () => setLinePreview({ ...preview, step: preview.moves.length }),
+        Escape: () => setLinePreview(null)
       }
-      setGame(newGame);
-      setCurrentMoveIndex(index);
+      : { ArrowLeft: goBack, ArrowRight: goForward, Home: goToStart, End: goToEnd };
+    const action = actions[event.key];
+    if (!action) return;
+    event.preventDefault();
+    action();
+  };
+
+  useEffect(() => {
+    const onKeyDown = (event: KeyboardEvent) => handleNavigationKeyRef.current(event);
+    window.addEventListener('keydown', onKeyDown);
+    return () => window.removeEventListener('keydown', onKeyDown);
+  }, []);
+
+  const handlePromoteVariation = () => {
+    setTree(promoteVariation(tree, currentNode.id));
+  };
+
+  // Keeps the selection on the closest surviving move after a deletion.
+  const handleDeleteVariation = () => {
+    const newTree = deleteVariation(tree, currentNode.id);
+    const survivor = [...getNodePath(tree, currentNode.id)].reverse().find(n => findNode(newTree, n.id));
+    setTree(newTree);
+    setCurrentNodeId(survivor ? survivor.id : newTree.root.id);
+  };
+
+  const handleDownloadPgn = () => {
+    downloadTextFile(pgnFileName(tree.headers), buildAnnotatedPgn(tree, analysis), 'application/x-chess-pgn');
+  };
+
+  // Shareable report of the analysis, with diagrams drawn from the side being coached.
+  const handleDownloadReport = (format: 'html' | 'md') => {
+    if (!analysis) return;
+    const options = { orientation: perspectiveColor || 'white' };
+    if (format === 'html') downloadTextFile(reportFileName(tree.headers, 'html'), buildHtmlReport(tree, analysis, options), 'text/html');
+    else downloadTextFile(reportFileName(tree.headers, 'md'), buildMarkdownReport(tree, analysis, options), 'text/markdown');
+  };
+
+  const handleCopyPgn = async () => {
+    try {
+      await copyToClipboard(buildAnnotatedPgn(tree, analysis));
+      setPgnCopied(true);
+      setTimeout(() => setPgnCopied(false), 2000);
+    } catch (err: any) {
+      setError(err.message);
     }
   };
 
-  const handleSendChat = async () => {
-    if (!userQuery.trim() || isThinking) return;
-    const query = userQuery;
-    setUserQuery('');
-    const newMessages: ChatMessage[] = [...chatMessages, { role: 'user', content: query }];
-    setChatMessages(newMessages);
+  const saveLlmSettings = (settings: LlmSettings) => {
+    applyLlmSettings(settings);
+    setLlmSettings(settings);
+    setShowSettings(false);
+  };
+
+  const openLibraryGame = (saved: LibraryGame) => {
+    try {
+      openTree(parsePgnToTree(saved.pgn), saved.source, saved);
+      setShowLibrary(false);
+    } catch (err) {
+      setError("This library game could not be opened.");
+    }
+  };
+
+  const handleDeleteLibraryGame = async (id: string) => {
+    try {
+      await deleteLibraryGame(id);
+      setLibraryGames(prev => prev.filter(g => g.id !== id));
+      if (libraryIdRef.current === id) libraryIdRef.current = null;
+    } catch (err: any) {
+      setError(err.message);
+    }
+  };
+
+  const updateLibraryTags = async (saved: LibraryGame, tags: string[]) => {
+    const entry = { ...saved, tags };
+    try {
+      await saveLibraryGame(entry);
+      setLibraryGames(prev => prev.map(g => (g.id === entry.id ? entry : g)));
+    } catch (err: any) {
+      setError(err.message);
+    }
+  };
+
+  const handleExportLibrary = async () => {
+    try {
+      downloadTextFile('gm-studio-library.json', await exportLibrary(), 'application/json');
+    } catch (err: any) {
+      setError(err.message);
+    }
+  };
+
+  const handleImportLibrary = async (json: string) => {
+    try {
+      await importLibrary(json);
+      setLibraryGames(await listLibraryGames());
+    } catch (err: any) {
+      setError(err.message);
+    }
+  };
+
+  // Asks the coach `query` after `history`, streaming the reply into the last bubble.
+  const runChat = async (history: ChatMessage[], query: string) => {
+    const controller = new AbortController();
+    chatAbortRef.current = controller;
+    // Bound to the game the question was asked about, even if another game is opened meanwhile.
+    const threadKey = gameKey;
+    const base: ChatMessage[] = [...history, { role: 'user', content: query }];
+    const showReply = (reply: ChatMessage) =>
+      setChatThreads(prev => ({ ...prev, [threadKey]: [...base, reply] }));
+    showReply({ role: 'assistant', content: '', status: 'streaming' });
     setIsThinking(true);
 
+    let partial = '';
     try {
       const response = await chatWithAssistant(
         query,
-        pgn || game.pgn(),
-        game.fen(),
-        chatMessages,
-        analysis || undefined
+        {
+          pgn,
+          startFen: tree.root.fen,
+          currentFen: currentNode.fen,
+          currentPly: currentNode.ply,
+          lastMove: currentNode.san || undefined,
+          analysis: analysis || undefined,
+          perspective,
+          variant: detectVariant(tree.headers)
+        },
+        history.filter(m => m.content),
+        {
+          onChunk: (text) => {
+            partial = text;
+            showReply({ role: 'assistant', content: text, status: 'streaming' });
+          },
+          signal: controller.signal
+        }
       );
-      setChatMessages([...newMessages, { role: 'assistant', content: response }]);
-    } catch (err) {
-      setError("Chat failed. Check your API key or connection.");
+      showReply({
+        role: 'assistant',
+        content: response.text,
+        ...(response.suggestions.length ? { suggestions: response.suggestions } : {}),
+        status: controller.signal.aborted ? 'stopped' : undefined
+      });
+    } catch (err: any) {
+      showReply({
+        role: 'assistant',
+        content: partial,
+        status: 'error',
+        error: err?.message || "Chat failed. Check your API key or connection."
+      });
     } finally {
+      chatAbortRef.current = null;
       setIsThinking(false);
     }
   };
 
+  const handleSendChat = async () => {
+    if (!userQuery.trim() || isThinking) return;
+    const query = userQuery;
+    setUserQuery('');
+    await runChat(chatMessages, query);
+  };
+
+  const stopChat = () => {
+    chatAbortRef.current?.abort();
+  };
+
+  // Replaces an assistant reply with a fresh answer to the question before it.
+  const regenerateReply = (idx: number) => {
+    const question = chatMessages[idx - 1];
+    if (isThinking || question?.role !== 'user') return;
+    runChat(chatMessages.slice(0, idx - 1), question.content);
+  };
+
+  // Rewrites a user message and drops everything after it.
+  const editAndResend = (idx: number, content: string) => {
+    if (isThinking || !content) return;
+    runChat(chatMessages.slice(0, idx), content);
+  };
+
   return (
     <div className="min-h-screen flex flex-col lg:flex-row p-4 gap-6 bg-slate-950 text-slate-100">
       
@@ -205,49 +757,113 @@ const App: React.FC = () => {
         <div className="bg-slate-900/50 p-6 rounded-2xl border border-slate-800 backdrop-blur-sm shadow-xl">
           <div className="flex items-center gap-3 mb-6">
             <BrainCircuit className="w-8 h-8 text-indigo-400" />
-            <h1 className="text-2xl font-bold bg-clip-text text-transparent bg-gradient-to-r from-indigo-400 to-purple-400">
-              GM Studio
-            </h1>
+            <div className="flex-1">
+              <h1 className="text-2xl font-bold bg-clip-text text-transparent bg-gradient-to-r from-indigo-400 to-purple-400">
+                GM Studio
+              </h1>
+              <p className="text-[10px] text-slate-500">
+                {LLM_PROVIDERS[llmSettings.provider].label} • {llmSettings.model || LLM_PROVIDERS[llmSettings.provider].defaultModel}
+              </p>
+            </div>
+            <button
+              onClick={() => setShowLibrary(true)}
+              title="Game library"
+              className="p-2 rounded-lg hover:bg-slate-800 text-slate-400 transition-colors"
+            >
+              <Library className="w-5 h-5" />
+            </button>
+            <button
+              onClick={() => setShowPuzzles(true)}
+              title="Puzzle trainer"
+              className="p-2 rounded-lg hover:bg-slate-800 text-slate-400 transition-colors"
+            >
+              <Puzzle className="w-5 h-5" />
+            </button>
+            <button
+              onClick={() => setShowSettings(true)}
+              title="Coach settings"
+              className="p-2 rounded-lg hover:bg-slate-800 text-slate-400 transition-colors"
+            >
+              <Settings className="w-5 h-5" />
+            </button>
           </div>
 
           <div className="space-y-4">
             <div>
               <label className="text-sm font-medium text-slate-400 mb-2 block">Input Method</label>
-              <div className="grid grid-cols-3 gap-2 p-1 bg-slate-800 rounded-lg">
-                {(['manual', 'pgn', 'lichess'] as InputMode[]).map((mode) => (
+              <div className="grid grid-cols-5 gap-1 p-1 bg-slate-800 rounded-lg">
+                {(Object.keys(INPUT_MODE_LABELS) as InputMode[]).map((mode) => (
                   <button
                     key={mode}
-                    onClick={() => setInputMode(mode)}
-                    className={`text-xs py-2 rounded-md transition-all ${
+                    onClick={() => selectInputMode(mode)}
+                    className={`text-[10px] py-2 rounded-md transition-all ${
                       inputMode === mode ? 'bg-indigo-600 text-white shadow-lg' : 'hover:bg-slate-700 text-slate-400'
                     }`}
                   >
-                    {mode.toUpperCase()}
+                    {INPUT_MODE_LABELS[mode]}
                   </button>
                 ))}
               </div>
             </div>
 
-            {inputMode === 'lichess' && (
-              <div className="flex gap-2">
-                <div className="relative flex-1">
-                  <Search className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-slate-500" />
-                  <input
-                    type="text"
-                    placeholder="Lichess Username"
-                    value={username}
-                    onKeyDown={(e) => e.key === 'Enter' && handleLichessSearch()}
-                    onChange={(e) => setUsername(e.target.value)}
-                    className="w-full bg-slate-800 border border-slate-700 rounded-lg py-2 pl-10 pr-4 focus:ring-2 focus:ring-indigo-500 focus:outline-none text-sm"
-                  />
+            {(inputMode === 'lichess' || inputMode === 'chesscom') && (
+              <div className="space-y-2">
+                <div className="flex gap-2">
+                  <div className="relative flex-1">
+                    <Search className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-slate-500" />
+                    <input
+                      type="text"
+                      placeholder={`${ONLINE_SOURCE_LABELS[inputMode]} Username`}
+                      value={username}
+                      onKeyDown={(e) => e.key === 'Enter' && handleGameSearch()}
+                      onChange={(e) => setUsername(e.target.value)}
+                      className="w-full bg-slate-800 border border-slate-700 rounded-lg py-2 pl-10 pr-4 focus:ring-2 focus:ring-indigo-500 focus:outline-none text-sm"
+                    />
+                  </div>
+                  {inputMode === 'lichess' && (
+                    <button
+                      onClick={() => setShowLichessFilters(!showLichessFilters)}
+                      title="Filters"
+                      className={`p-2 rounded-lg transition-colors ${showLichessFilters ? 'bg-slate-700 text-indigo-300' : 'bg-slate-800 hover:bg-slate-700 text-slate-400'}`}
+                    >
+                      <SlidersHorizontal className="w-5 h-5" />
+                    </button>
+                  )}
+                  <button 
+                    onClick={handleGameSearch}
+                    disabled={isSearchingGames}
+                    className="bg-indigo-600 hover:bg-indigo-700 p-2 rounded-lg transition-colors shadow-lg disabled:opacity-50"
+                  >
+                    {isSearchingGames ? <Loader2 className="w-5 h-5 animate-spin" /> : <Search className="w-5 h-5" />}
+                  </button>
                 </div>
-                <button 
-                  onClick={handleLichessSearch}
-                  disabled={isSearchingLichess}
-                  className="bg-indigo-600 hover:bg-indigo-700 p-2 rounded-lg transition-colors shadow-lg disabled:opacity-50"
-                >
-                  {isSearchingLichess ? <Loader2 className="w-5 h-5 animate-spin" /> : <Search className="w-5 h-5" />}
-                </button>
+                {inputMode === 'lichess' && (
+                  <>
+                    {showLichessFilters && <LichessFilters filters={lichessFilters} onChange={setLichessFilters} />}
+                    <button
+                      onClick={() => setShowPlayerReport(true)}
+                      className="w-full text-xs py-2 rounded-lg bg-slate-800 hover:bg-slate-700 text-slate-400 flex items-center justify-center gap-2 transition-colors"
+                    >
+                      <BarChart3 className="w-4 h-4" /> Player weakness report
+                    </button>
+                  </>
+                )}
+              </div>
+            )}
+
+            {inputMode === 'fen' && (
+              <div className="space-y-2">
+                <p className="text-xs text-slate-400">
+                  Set up a position on the board or paste a FEN, then play moves or ask the coach about it.
+                </p>
+                {!isEditingPosition && (
+                  <button
+                    onClick={() => setIsEditingPosition(true)}
+                    className="w-full text-xs py-2 rounded-lg bg-slate-800 hover:bg-slate-700 text-slate-400 flex items-center justify-center gap-2 transition-colors"
+                  >
+                    <Pencil className="w-4 h-4" /> Edit position
+                  </button>
+                )}
               </div>
             )}
 
@@ -261,10 +877,30 @@ const App: React.FC = () => {
               </label>
             )}
 
-            <div className="flex gap-3 pt-4">
+            <div className="pt-4">
+              <label className="text-sm font-medium text-slate-400 mb-2 block">
+                You played{perspective?.rating ? ` (rated ${perspective.rating})` : ''}
+              </label>
+              <div className="grid grid-cols-3 gap-2 p-1 bg-slate-800 rounded-lg">
+                {([['white', 'White'], ['black', 'Black'], [null, 'Neither']] as [PlayerColor | null, string][]).map(([color, label]) => (
+                  <button
+                    key={label}
+                    onClick={() => setPerspectiveColor(color)}
+                    title={color && color === detectedColor ? `Detected from ${username}` : undefined}
+                    className={`text-xs py-2 rounded-md transition-all ${
+                      perspectiveColor === color ? 'bg-indigo-600 text-white shadow-lg' : 'hover:bg-slate-700 text-slate-400'
+                    }`}
+                  >
+                    {label}
+                  </button>
+                ))}
+              </div>
+            </div>
+
+            <div className="flex gap-3">
               <button 
-                onClick={startAnalysis}
-                disabled={isAnalyzing || (pgn === '' && moveHistory.length === 0)}
+                onClick={() => startAnalysis()}
+                disabled={isAnalyzing || !canAnalyze}
                 className="flex-1 bg-gradient-to-r from-indigo-600 to-purple-600 hover:from-indigo-50 to-purple-500 disabled:opacity-50 text-white py-3 rounded-xl font-semibold flex items-center justify-center gap-2 shadow-lg hover:shadow-indigo-500/20 transition-all"
               >
                 {isAnalyzing ? <Loader2 className="w-5 h-5 animate-spin" /> : <Trophy className="w-5 h-5" />}
@@ -282,28 +918,87 @@ const App: React.FC = () => {
 
         {/* Moves History */}
         <div className="flex-1 bg-slate-900/50 p-6 rounded-2xl border border-slate-800 backdrop-blur-sm overflow-hidden flex flex-col min-h-[200px]">
-          <h2 className="text-sm font-semibold text-slate-400 mb-4 flex items-center gap-2">
-            <BookOpen className="w-4 h-4" /> Move History
-          </h2>
+          <div className="flex items-center justify-between mb-4">
+            <h2 className="text-sm font-semibold text-slate-400 flex items-center gap-2">
+              <BookOpen className="w-4 h-4" /> Move History
+            </h2>
+            <div className="flex gap-1">
+              {!onMainLine && (
+                <>
+                  <button
+                    onClick={handlePromoteVariation}
+                    title="Promote variation"
+                    className="p-1.5 rounded-lg bg-slate-800 hover:bg-slate-700 text-slate-400 transition-colors"
+                  >
+                    <ArrowUpToLine className="w-4 h-4" />
+                  </button>
+                  <button
+                    onClick={handleDeleteVariation}
+                    title="Delete variation"
+                    className="p-1.5 rounded-lg bg-slate-800 hover:bg-red-900/50 text-slate-400 transition-colors"
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </button>
+                </>
+              )}
+              {moveHistory.length > 0 && (
+                <>
+                  <button
+                    onClick={handleCopyPgn}
+                    title={analysis ? 'Copy annotated PGN' : 'Copy PGN'}
+                    className="p-1.5 rounded-lg bg-slate-800 hover:bg-slate-700 text-slate-400 transition-colors"
+                  >
+                    {pgnCopied ? <Check className="w-4 h-4 text-emerald-400" /> : <Copy className="w-4 h-4" />}
+                  </button>
+                  <button
+                    onClick={handleDownloadPgn}
+                    title={analysis ? 'Download annotated PGN' : 'Download PGN'}
+                    className="p-1.5 rounded-lg bg-slate-800 hover:bg-slate-700 text-slate-400 transition-colors"
+                  >
+                    <Download className="w-4 h-4" />
+                  </button>
+                </>
+              )}
+            </div>
+          </div>
+          {clockProfile && (
+            <TimeChart
+              profile={clockProfile}
+              fens={gameFens}
+              history={moveHistory}
+              annotationsByPly={annotationsByPly}
+              currentMoveIndex={onMainLine ? currentMoveIndex : -1}
+              onSelectPly={navigateToMove}
+            />
+          )}
           <div className="flex-1 overflow-y-auto pr-2 custom-scrollbar">
             <div className="grid grid-cols-2 gap-2">
-              {moveHistory.map((move, idx) => (
-                <button
-                  key={idx}
-                  onClick={() => navigateToMove(idx)}
-                  className={`text-left px-3 py-2 rounded-lg text-sm font-mono flex justify-between items-center transition-all ${
-                    currentMoveIndex === idx ? 'bg-indigo-600/20 text-indigo-400 border border-indigo-500/50' : 'hover:bg-slate-800 text-slate-400'
-                  }`}
-                >
-                  <span className="opacity-50">{Math.floor(idx / 2) + 1}{idx % 2 === 0 ? '.' : '...'}</span>
-                  <span>{move}</span>
-                </button>
-              ))}
-              {moveHistory.length === 0 && (
-                <p className="col-span-2 text-center text-slate-600 py-10 italic">No moves played yet</p>
-              )}
+              <MoveTreeView
+                tree={tree}
+                currentNodeId={currentNode.id}
+                annotationsByPly={annotationsByPly}
+                leftTheoryAt={openingInfo?.leftTheoryAt ?? null}
+                clocks={clockProfile?.clocks}
+                onSelect={setCurrentNodeId}
+              />
             </div>
           </div>
+          {currentAnnotation && (
+            <AnnotationCard
+              annotation={currentAnnotation}
+              fen={currentNode.fen}
+              clock={clockProfile?.clocks[currentAnnotation.ply] || undefined}
+              comment={
+                <CoachText
+                  text={currentAnnotation.comment}
+                  line={gameLine}
+                  onSelectPly={navigateToMove}
+                  fen={gameLine.fens[currentAnnotation.ply]}
+                  onPreview={previewLine}
+                />
+              }
+            />
+          )}
         </div>
 
         {error && (
@@ -319,34 +1014,100 @@ const App: React.FC = () => {
         <div className="grid grid-cols-1 xl:grid-cols-2 gap-6">
           {/* Board */}
           <div className="bg-slate-900 p-4 rounded-3xl border border-slate-800 shadow-2xl flex flex-col items-center">
-            <div className="w-full max-w-[500px] aspect-square">
-              <Chessboard 
-                position={game.fen()} 
-                onPieceDrop={onDrop}
-                customBoardStyle={{
-                  borderRadius: '12px',
-                  boxShadow: '0 5px 15px rgba(0, 0, 0, 0.5)'
-                }}
-                customDarkSquareStyle={{ backgroundColor: '#475569' }}
-                customLightSquareStyle={{ backgroundColor: '#cbd5e1' }}
-              />
-              <div className="mt-4 flex justify-center gap-4">
-                <button 
-                  onClick={() => navigateToMove(currentMoveIndex - 1)}
-                  disabled={currentMoveIndex < 0}
-                  className="p-2 rounded-lg bg-slate-800 hover:bg-slate-700 disabled:opacity-30 transition-all"
-                >
-                  <ChevronLeft className="w-6 h-6" />
-                </button>
-                <button 
-                   onClick={() => navigateToMove(currentMoveIndex + 1)}
-                   disabled={currentMoveIndex >= moveHistory.length - 1}
-                   className="p-2 rounded-lg bg-slate-800 hover:bg-slate-700 disabled:opacity-30 transition-all"
-                >
-                  <ChevronRight className="w-6 h-6" />
-                </button>
+            {isEditingPosition ? (
+              <div className="w-full max-w-[500px]">
+                <BoardEditor initialFen={currentNode.fen} onApply={startFromPosition} />
               </div>
-            </div>
+            ) : (
+              <div className="w-full max-w-[500px] aspect-square">
+                <OpeningExplorer
+                  classification={openingInfo}
+                  fens={positionFens}
+                  history={moveHistory}
+                  bookMoves={getBookMoves(currentNode.fen)}
+                  onSelectPly={navigateToMove}
+                  onPlayMove={makeAMove}
+                />
+                {linePreview && (
+                  <LinePreviewBar
+                    preview={linePreview}
+                    canKeep={!!previewParent}
+                    onStep={step => setLinePreview({ ...linePreview, step })}
+                    onKeep={keepPreviewLine}
+                    onClose={() => setLinePreview(null)}
+                  />
+                )}
+                <Chessboard
+                  options={{
+                    position: boardFen,
+                    onPieceDrop: ({ sourceSquare, targetSquare }) => onDrop(sourceSquare, targetSquare),
+                    boardOrientation: perspectiveColor || 'white',
+                    allowDragging: !linePreview,
+                    arrows: boardArrows,
+                    squareStyles: boardSquareStyles,
+                    boardStyle: {
+                      borderRadius: '12px',
+                      boxShadow: '0 5px 15px rgba(0, 0, 0, 0.5)'
+                    },
+                    darkSquareStyle: { backgroundColor: '#475569' },
+                    lightSquareStyle: { backgroundColor: '#cbd5e1' }
+                  }}
+                />
+                <div className="mt-4 flex justify-center gap-4">
+                  <button
+                    onClick={goToStart}
+                    disabled={currentNode.id === tree.root.id}
+                    title="Start position (Home)"
+                    className="p-2 rounded-lg bg-slate-800 hover:bg-slate-700 disabled:opacity-30 transition-all"
+                  >
+                    <ChevronsLeft className="w-6 h-6" />
+                  </button>
+                  <button 
+                    onClick={goBack}
+                    disabled={currentNode.id === tree.root.id}
+                    title="Previous move (←)"
+                    className="p-2 rounded-lg bg-slate-800 hover:bg-slate-700 disabled:opacity-30 transition-all"
+                  >
+                    <ChevronLeft className="w-6 h-6" />
+                  </button>
+                  <button 
+                     onClick={goForward}
+                     disabled={currentNode.children.length === 0}
+                     title="Next move (→)"
+                     className="p-2 rounded-lg bg-slate-800 hover:bg-slate-700 disabled:opacity-30 transition-all"
+                  >
+                    <ChevronRight className="w-6 h-6" />
+                  </button>
+                  <button
+                    onClick={goToEnd}
+                    disabled={currentNode.children.length === 0}
+                    title="End of the line (End)"
+                    className="p-2 rounded-lg bg-slate-800 hover:bg-slate-700 disabled:opacity-30 transition-all"
+                  >
+                    <ChevronsRight className="w-6 h-6" />
+                  </button>
+                  <button
+                    onClick={() => setPlayOutFen(currentNode.fen)}
+                    disabled={game.isGameOver()}
+                    title="Play from here against the engine"
+                    className="p-2 rounded-lg bg-slate-800 hover:bg-slate-700 disabled:opacity-30 transition-all"
+                  >
+                    <Swords className="w-6 h-6" />
+                  </button>
+                </div>
+                <EvaluationGraph
+                  fens={gameFens}
+                  evaluations={engineEvals}
+                  currentMoveIndex={mainLinePly}
+                  onSelectPly={navigateToMove}
+                />
+                <EngineEvalPanel
+                  evaluation={engineEvals[currentNode.fen]}
+                  engineName={engineName}
+                  progress={engineProgress}
+                />
+              </div>
+            )}
           </div>
 
           {/* Analysis & Chat Tabs */}
@@ -376,15 +1137,71 @@ const App: React.FC = () => {
                   </div>
                 ) : (
                   <div className="space-y-6">
+                    {analysisCachedAt !== null && (
+                      <div className="flex items-center justify-between gap-3 bg-slate-800/50 border border-slate-700 px-4 py-2 rounded-xl text-xs text-slate-400">
+                        <span>Cached result from {new Date(analysisCachedAt).toLocaleString()}</span>
+                        <button
+                          onClick={() => startAnalysis(true)}
+                          disabled={isAnalyzing}
+                          className="flex items-center gap-1 text-indigo-300 hover:text-indigo-200 disabled:opacity-50"
+                        >
+                          <RotateCcw className="w-3 h-3" /> Re-analyze
+                        </button>
+                      </div>
+                    )}
+                    <div className="flex items-center justify-between gap-3 text-xs text-slate-400">
+                      <span className="flex items-center gap-1">
+                        <FileText className="w-3 h-3" /> Share report
+                      </span>
+                      <div className="flex gap-2">
+                        <button
+                          onClick={() => handleDownloadReport('html')}
+                          title="Self-contained HTML report, printable to PDF"
+                          className="px-2 py-1 rounded-lg bg-slate-800 hover:bg-slate-700 text-slate-300 transition-colors"
+                        >
+                          HTML
+                        </button>
+                        <button
+                          onClick={() => handleDownloadReport('md')}
+                          title="Markdown report"
+                          className="px-2 py-1 rounded-lg bg-slate-800 hover:bg-slate-700 text-slate-300 transition-colors"
+                        >
+                          Markdown
+                        </button>
+                      </div>
+                    </div>
                     <div className="grid grid-cols-2 gap-4">
                       <PhaseCard title="Opening" phase={analysis.opening} />
                       <PhaseCard title="Middlegame" phase={analysis.middlegame} />
                       <PhaseCard title="Tactics" phase={analysis.tactics} />
                       <PhaseCard title="Endgame" phase={analysis.endgame} />
                     </div>
+                    {analysis.timeManagement && (
+                      <TimeManagementSection
+                        phase={analysis.timeManagement}
+                        usage={clockProfile ? errorTimeUsage(clockProfile, analysis.moveAnnotations) : []}
+                        fens={gameFens}
+                        onSelectPly={navigateToMove}
+                      />
+                    )}
                     <div className="bg-indigo-600/10 border border-indigo-500/30 p-5 rounded-2xl italic text-slate-300">
-                      "{analysis.overallAdvice}"
+                      "<CoachText
+                        text={analysis.overallAdvice}
+                        line={gameLine}
+                        onSelectPly={navigateToMove}
+                        fen={currentNode.fen}
+                        suggestions={analysis.suggestions}
+                        onPreview={previewLine}
+                      />"
                     </div>
+                    {!!analysis.suggestions?.length && (
+                      <div className="space-y-2">
+                        <h3 className="text-sm font-bold text-slate-400 uppercase tracking-widest flex items-center gap-2">
+                          <Eye className="w-4 h-4" /> Suggested Lines
+                        </h3>
+                        <SuggestedLines suggestions={analysis.suggestions} onPreview={previewLine} />
+                      </div>
+                    )}
                     <div className="space-y-4">
                       <h3 className="text-sm font-bold text-slate-400 uppercase tracking-widest flex items-center gap-2">
                         <BookOpen className="w-4 h-4" /> Study List
@@ -409,20 +1226,18 @@ const App: React.FC = () => {
                       </div>
                     )}
                     {chatMessages.map((msg, idx) => (
-                      <div key={idx} className={`flex ${msg.role === 'user' ? 'justify-end' : 'justify-start'}`}>
-                        <div className={`max-w-[85%] p-3 rounded-2xl text-sm ${msg.role === 'user' ? 'bg-indigo-600 text-white rounded-tr-none' : 'bg-slate-800 text-slate-200 border border-slate-700 rounded-tl-none'}`}>
-                          {msg.content}
-                        </div>
-                      </div>
+                      <ChatMessageBubble
+                        key={idx}
+                        message={msg}
+                        disabled={isThinking}
+                        line={gameLine}
+                        onSelectPly={navigateToMove}
+                        fen={currentNode.fen}
+                        onPreview={previewLine}
+                        onRegenerate={msg.role === 'assistant' ? () => regenerateReply(idx) : undefined}
+                        onEditResend={msg.role === 'user' ? (content) => editAndResend(idx, content) : undefined}
+                      />
                     ))}
-                    {isThinking && (
-                      <div className="flex justify-start">
-                        <div className="bg-slate-800 p-3 rounded-2xl border border-slate-700 rounded-tl-none flex items-center gap-2">
-                          <Loader2 className="w-4 h-4 animate-spin text-purple-400" />
-                          <span className="text-xs text-slate-400">Coach is thinking...</span>
-                        </div>
-                      </div>
-                    )}
                     <div ref={chatEndRef} />
                   </div>
                   <div className="flex gap-2 p-2 bg-slate-800/50 rounded-xl border border-slate-700">
@@ -434,13 +1249,23 @@ const App: React.FC = () => {
                       onKeyDown={(e) => e.key === 'Enter' && handleSendChat()}
                       className="flex-1 bg-transparent border-none focus:ring-0 text-sm px-2"
                     />
-                    <button 
-                      onClick={handleSendChat}
-                      disabled={isThinking || !userQuery.trim()}
-                      className="bg-indigo-600 hover:bg-indigo-500 disabled:opacity-50 p-2 rounded-lg transition-all"
-                    >
-                      <Send className="w-4 h-4" />
-                    </button>
+                    {isThinking ? (
+                      <button
+                        onClick={stopChat}
+                        title="Stop"
+                        className="bg-slate-700 hover:bg-slate-600 p-2 rounded-lg transition-all"
+                      >
+                        <Square className="w-4 h-4" />
+                      </button>
+                    ) : (
+                      <button 
+                        onClick={handleSendChat}
+                        disabled={!userQuery.trim()}
+                        className="bg-indigo-600 hover:bg-indigo-500 disabled:opacity-50 p-2 rounded-lg transition-all"
+                      >
+                        <Send className="w-4 h-4" />
+                      </button>
+                    )}
                   </div>
                 </div>
               )}
@@ -456,9 +1281,9 @@ const App: React.FC = () => {
             <div className="p-6 border-b border-slate-800 flex justify-between items-center">
               <div>
                 <h2 className="text-xl font-bold">Select Game</h2>
-                <p className="text-sm text-slate-400">Recent games for {username}</p>
+                <p className="text-sm text-slate-400">Recent {ONLINE_SOURCE_LABELS[gameListSource]} games for {username}</p>
               </div>
-              <button onClick={() => setShowGameSelector(false)} className="p-2 hover:bg-slate-800 rounded-full">
+              <button onClick={closeGameSelector} className="p-2 hover:bg-slate-800 rounded-full">
                 <X className="w-6 h-6" />
               </button>
             </div>
@@ -466,27 +1291,101 @@ const App: React.FC = () => {
               {recentGames.map((g) => (
                 <button
                   key={g.id}
-                  onClick={() => selectLichessGame(g.id)}
+                  onClick={() => selectOnlineGame(g)}
                   className="w-full text-left p-4 bg-slate-800 hover:bg-indigo-600/20 hover:border-indigo-500/50 rounded-2xl border border-slate-700 transition-all flex justify-between items-center"
                 >
                   <div>
                     <div className="font-semibold flex items-center gap-2">
-                      <span className="text-white">{g.players.white.user?.name || 'Anon'}</span>
+                      <span className="text-white">{g.white.name}</span>
+                      {g.white.rating !== undefined && <span className="text-slate-500 text-xs">({g.white.rating})</span>}
                       <span className="text-slate-500 text-xs">vs</span>
-                      <span className="text-white">{g.players.black.user?.name || 'Anon'}</span>
+                      <span className="text-white">{g.black.name}</span>
+                      {g.black.rating !== undefined && <span className="text-slate-500 text-xs">({g.black.rating})</span>}
                     </div>
                     <p className="text-xs text-slate-500 mt-1">
-                      {new Date(g.createdAt).toLocaleDateString()} • {g.variant} • {g.status}
+                      {[new Date(g.createdAt).toLocaleDateString(), g.speed, g.rated === undefined ? null : g.rated ? 'rated' : 'casual', variantLabel(g.variant), g.status]
+                        .filter(Boolean)
+                        .join(' • ')}
                     </p>
                   </div>
                   <ChevronRight className="w-5 h-5 text-slate-600" />
                 </button>
               ))}
+              {isSearchingGames ? (
+                <p className="text-center text-slate-500 py-4 text-sm flex items-center justify-center gap-2">
+                  <Loader2 className="w-4 h-4 animate-spin" /> Loading games...
+                </p>
+              ) : recentGames.length === 0 ? (
+                <p className="text-center text-slate-600 py-10 italic">No games found</p>
+              ) : gameListCursor && (
+                <button
+                  onClick={() => loadOnlineGames(gameListSource, gameListCursor)}
+                  className="w-full py-3 rounded-2xl border border-slate-700 text-sm text-slate-400 hover:bg-slate-800 transition-colors"
+                >
+                  Load more
+                </button>
+              )}
             </div>
           </div>
         </div>
       )}
 
+      {/* PGN Database Game Picker */}
+      {pgnDatabase && (
+        <PgnGamePicker
+          fileName={pgnDatabase.fileName}
+          games={pgnDatabase.games}
+          onSelect={selectPgnDatabaseGame}
+          onClose={() => setPgnDatabase(null)}
+        />
+      )}
+
+      {/* Coach Settings */}
+      {showSettings && (
+        <SettingsPanel settings={llmSettings} onSave={saveLlmSettings} onClose={() => setShowSettings(false)} />
+      )}
+
+      {/* Game Library */}
+      {showLibrary && (
+        <GameLibrary
+          games={libraryGames}
+          currentId={libraryIdRef.current}
+          onOpen={openLibraryGame}
+          onDelete={handleDeleteLibraryGame}
+          onUpdateTags={updateLibraryTags}
+          onExport={handleExportLibrary}
+          onImport={handleImportLibrary}
+          onClose={() => setShowLibrary(false)}
+        />
+      )}
+
+      {/* Player Weakness Report */}
+      {showPlayerReport && (
+        <PlayerReportPanel initialUsername={username} onClose={() => setShowPlayerReport(false)} />
+      )}
+
+      {/* Puzzle Trainer */}
+      {showPuzzles && (
+        <PuzzleTrainer
+          currentGame={pgn ? { id: gameKey, pgn, analysis, evaluations: engineEvals } : null}
+          libraryGames={libraryGames}
+          playerName={username}
+          onClose={() => setShowPuzzles(false)}
+        />
+      )}
+
+      {/* Play-out */}
+      {playOutFen && (
+        <PlayOutPanel
+          startFen={playOutFen}
+          engine={engineRef.current}
+          engineName={engineName || 'Engine'}
+          defaultColor={perspectiveColor}
+          onAnalyze={(moves, headers) => analyzePlayOut(playOutFen, moves, headers)}
+          onClose={() => setPlayOutFen(null)}
+        />
+      )}
+
       {/* Styles */}
       <style>{`
         .custom-scrollbar::-webkit-scrollbar { width: 6px; }
@@ -524,4 +1423,71 @@ interface PhaseCardProps {
   phase: { score: number; feedback: string };
 }
 
+// Time-management rating, with each mistake and blunder placed against the clock.
+const TimeManagementSection: React.FC<{
+  phase: AnalysisPhase;
+  usage: ErrorTimeUsage[];
+  fens: string[];
+  onSelectPly: (ply: number) => void;
+}> = ({ phase, usage, fens, onSelectPly }) => {
+  const pressured = usage.filter(u => u.clock.timeTrouble || u.hasty).length;
+  return (
+    <div className="bg-slate-800/50 border border-slate-700 p-4 rounded-2xl space-y-3">
+      <div className="flex items-center justify-between">
+        <h3 className="text-sm font-bold text-slate-400 uppercase tracking-widest flex items-center gap-2">
+          <Clock className="w-4 h-4" /> Time Management
+        </h3>
+        <span className="text-lg font-bold text-slate-200">{phase.score}%</span>
+      </div>
+      {phase.feedback && <p className="text-sm text-slate-300">{phase.feedback}</p>}
+      {usage.length > 0 && (
+        <div className="space-y-1">
+          <p className="text-xs text-slate-500">
+            {pressured} of {usage.length} mistake{usage.length === 1 ? '' : 's'} and blunders came in time trouble or from hasty moves.
+          </p>
+          {usage.map(({ annotation, clock, hasty }) => (
+            <button
+              key={annotation.ply}
+              onClick={() => onSelectPly(annotation.ply)}
+              className="w-full text-left text-xs flex justify-between gap-2 px-2 py-1 rounded-lg hover:bg-slate-700/50"
+            >
+              <span className={`font-mono ${CLASSIFICATION_STYLES[annotation.classification].color}`}>
+                {moveNumberLabel(fens[annotation.ply + 1])} {annotation.san}{CLASSIFICATION_STYLES[annotation.classification].symbol}
+              </span>
+              <span className={clock.timeTrouble || hasty ? 'text-amber-300' : 'text-slate-500'}>
+                {clock.spentSeconds !== null ? formatDuration(clock.spentSeconds) : '?'}, {formatClock(clock.remainingSeconds)} left
+                {clock.timeTrouble ? ' · time trouble' : hasty ? ' · hasty' : ''}
+              </span>
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+// `fen` is the position after the annotated move; `comment` renders the annotation text.
+const AnnotationCard: React.FC<{ annotation: MoveAnnotation; fen: string; comment: React.ReactNode; clock?: MoveClock }> = ({ annotation, fen, comment, clock }) => {
+  const style = CLASSIFICATION_STYLES[annotation.classification];
+  return (
+    <div className={`mt-4 p-4 rounded-xl border text-sm ${style.bg}`}>
+      <p className={`text-[10px] font-bold uppercase tracking-widest mb-1 ${style.color}`}>
+        {moveNumberLabel(fen)} {annotation.san}{style.symbol} — {style.label}
+      </p>
+      <p className="text-slate-300">{comment}</p>
+      {annotation.betterMove && (
+        <p className="text-xs text-slate-400 mt-2">
+          Better was <span className="font-mono text-slate-200">{annotation.betterMove}</span>
+        </p>
+      )}
+      {clock && (
+        <p className={`text-xs mt-2 ${clock.timeTrouble ? 'text-amber-300' : 'text-slate-500'}`}>
+          {clock.spentSeconds !== null && `Played in ${formatDuration(clock.spentSeconds)}, `}
+          {formatClock(clock.remainingSeconds)} left{clock.timeTrouble ? ' (time trouble)' : ''}
+        </p>
+      )}
+    </div>
+  );
+};
+
 export default App;
@@ -0,0 +1,208 @@
+import React, { useMemo, useState } from 'react';
+import { DEFAULT_POSITION } from 'chess.js';
+import { Chessboard, ChessboardProvider, PieceDropHandlerArgs, SparePiece, SquareHandlerArgs } from 'react-chessboard';
+import { AlertCircle, Eraser, RotateCcw, Trash2 } from 'lucide-react';
+import {
+  FenPosition,
+  availableCastlingRights,
+  buildFen,
+  enPassantCandidates,
+  parseFen,
+  validatePosition
+} from '../services/fenService';
+
+interface BoardEditorProps {
+  initialFen: string;
+  onApply: (fen: string) => void;
+}
+
+const EMPTY_BOARD_FEN = '8/8/8/8/8/8/8/8 w - - 0 1';
+const PALETTE = ['K', 'Q', 'R', 'B', 'N', 'P'];
+const ERASER = 'eraser';
+
+const CASTLING_LABELS: Record<string, string> = { K: 'White O-O', Q: 'White O-O-O', k: 'Black O-O', q: 'Black O-O-O' };
+
+const inputClass = 'w-full bg-slate-800 border border-slate-700 rounded-lg py-2 px-3 focus:ring-2 focus:ring-indigo-500 focus:outline-none text-xs';
+
+const BoardEditor: React.FC<BoardEditorProps> = ({ initialFen, onApply }) => {
+  const [position, setPosition] = useState<FenPosition>(() => parseFen(initialFen));
+  const [fenDraft, setFenDraft] = useState<string | null>(null); // text being typed, until it parses
+  // Palette piece placed by clicking a square, as an alternative to dragging.
+  const [brush, setBrush] = useState<string | null>(null);
+
+  const fen = buildFen(position);
+  const problem = useMemo(() => validatePosition(fen), [fen]);
+  const castlingAllowed = availableCastlingRights(position.pieces);
+  const epSquares = enPassantCandidates(position.pieces, position.turn);
+
+  // Keeps castling and en passant consistent with the pieces after every edit.
+  const updatePieces = (pieces: FenPosition['pieces']) => {
+    const allowed = availableCastlingRights(pieces);
+    setPosition(prev => ({
+      ...prev,
+      pieces,
+      castling: prev.castling.split('').filter(r => allowed.includes(r)).join(''),
+      enPassant: enPassantCandidates(pieces, prev.turn).includes(prev.enPassant) ? prev.enPassant : ''
+    }));
+    setFenDraft(null);
+  };
+
+  const loadFen = (text: string) => {
+    setPosition(parseFen(text));
+    setFenDraft(null);
+  };
+
+  const onPieceDrop = ({ piece, sourceSquare, targetSquare }: PieceDropHandlerArgs) => {
+    const pieces = { ...position.pieces };
+    if (!piece.isSparePiece) delete pieces[sourceSquare];
+    // Dropping a board piece outside the board removes it.
+    if (targetSquare) pieces[targetSquare] = piece.pieceType;
+    updatePieces(pieces);
+    return true;
+  };
+
+  const onSquareClick = ({ square }: SquareHandlerArgs) => {
+    if (!brush) return;
+    const pieces = { ...position.pieces };
+    if (brush === ERASER || pieces[square] === brush) delete pieces[square];
+    else pieces[square] = brush;
+    updatePieces(pieces);
+  };
+
+  const paletteButton = (pieceType: string) => (
+    <button
+      key={pieceType}
+      onClick={() => setBrush(brush === pieceType ? null : pieceType)}
+      title="Drag onto the board, or select and click squares"
+      className={`w-10 h-10 rounded-lg transition-all ${brush === pieceType ? 'bg-indigo-600/40 ring-2 ring-indigo-500' : 'hover:bg-slate-800'}`}
+    >
+      <SparePiece pieceType={pieceType} />
+    </button>
+  );
+
+  return (
+    <div className="w-full space-y-4">
+      <ChessboardProvider
+        options={{
+          position: fen,
+          onPieceDrop,
+          onSquareClick,
+          allowDragOffBoard: true,
+          boardStyle: { borderRadius: '12px', boxShadow: '0 5px 15px rgba(0, 0, 0, 0.5)' },
+          darkSquareStyle: { backgroundColor: '#475569' },
+          lightSquareStyle: { backgroundColor: '#cbd5e1' }
+        }}
+      >
+        <div className="flex justify-center gap-1 mb-2">
+          {PALETTE.map(p => paletteButton(`b${p}`))}
+        </div>
+        <div className="w-full max-w-[500px] aspect-square mx-auto">
+          <Chessboard />
+        </div>
+        <div className="flex justify-center gap-1 mt-2">
+          {PALETTE.map(p => paletteButton(`w${p}`))}
+          <button
+            onClick={() => setBrush(brush === ERASER ? null : ERASER)}
+            title="Eraser: click squares to clear them"
+            className={`w-10 h-10 rounded-lg flex items-center justify-center transition-all ${
+              brush === ERASER ? 'bg-indigo-600/40 ring-2 ring-indigo-500' : 'hover:bg-slate-800 text-slate-400'
+            }`}
+          >
+            <Eraser className="w-5 h-5" />
+          </button>
+        </div>
+      </ChessboardProvider>
+
+      <div className="grid grid-cols-2 gap-4 text-xs">
+        <div>
+          <p className="text-slate-400 mb-2 font-medium">Side to move</p>
+          <div className="grid grid-cols-2 gap-1 p-1 bg-slate-800 rounded-lg">
+            {(['w', 'b'] as const).map(turn => (
+              <button
+                key={turn}
+                onClick={() => setPosition(prev => ({ ...prev, turn, enPassant: '' }))}
+                className={`py-1.5 rounded-md transition-all ${position.turn === turn ? 'bg-indigo-600 text-white' : 'text-slate-400 hover:bg-slate-700'}`}
+              >
+                {turn === 'w' ? 'White' : 'Black'}
+              </button>
+            ))}
+          </div>
+          <p className="text-slate-400 mt-3 mb-2 font-medium">En passant</p>
+          <select
+            value={position.enPassant}
+            onChange={(e) => setPosition(prev => ({ ...prev, enPassant: e.target.value }))}
+            disabled={epSquares.length === 0}
+            className={inputClass}
+          >
+            <option value="">None</option>
+            {epSquares.map(sq => <option key={sq} value={sq}>{sq}</option>)}
+          </select>
+        </div>
+        <div>
+          <p className="text-slate-400 mb-2 font-medium">Castling</p>
+          <div className="space-y-1">
+            {Object.keys(CASTLING_LABELS).map(right => (
+              <label key={right} className={`flex items-center gap-2 ${castlingAllowed.includes(right) ? 'text-slate-300' : 'text-slate-600'}`}>
+                <input
+                  type="checkbox"
+                  checked={position.castling.includes(right)}
+                  disabled={!castlingAllowed.includes(right)}
+                  onChange={(e) => setPosition(prev => ({
+                    ...prev,
+                    castling: e.target.checked ? prev.castling + right : prev.castling.replace(right, '')
+                  }))}
+                />
+                {CASTLING_LABELS[right]}
+              </label>
+            ))}
+          </div>
+        </div>
+      </div>
+
+      <div>
+        <p className="text-xs text-slate-400 mb-2 font-medium">FEN</p>
+        <input
+          type="text"
+          value={fenDraft ?? fen}
+          onChange={(e) => {
+            setFenDraft(e.target.value);
+            if (!validatePosition(e.target.value)) loadFen(e.target.value);
+          }}
+          spellCheck={false}
+          className={`font-mono ${inputClass}`}
+        />
+        {fenDraft !== null && <p className="text-[10px] text-amber-300 mt-1">{validatePosition(fenDraft)}</p>}
+      </div>
+
+      <div className="flex gap-2">
+        <button
+          onClick={() => loadFen(DEFAULT_POSITION)}
+          className="flex-1 bg-slate-800 hover:bg-slate-700 py-2 rounded-lg text-xs text-slate-300 flex items-center justify-center gap-2"
+        >
+          <RotateCcw className="w-4 h-4" /> Start position
+        </button>
+        <button
+          onClick={() => loadFen(EMPTY_BOARD_FEN)}
+          className="flex-1 bg-slate-800 hover:bg-slate-700 py-2 rounded-lg text-xs text-slate-300 flex items-center justify-center gap-2"
+        >
+          <Trash2 className="w-4 h-4" /> Clear board
+        </button>
+      </div>
+
+      {problem && (
+        <p className="text-xs text-red-300 flex items-center gap-2">
+          <AlertCircle className="w-4 h-4 shrink-0" /> {problem}
+        </p>
+      )}
+      <button
+        onClick={() => onApply(fen)}
+        disabled={!!problem}
+        className="w-full bg-gradient-to-r from-indigo-600 to-purple-600 disabled:opacity-50 text-white py-3 rounded-xl font-semibold shadow-lg transition-all"
+      >
+        Start from this position
+      </button>
+    </div>
+  );
+};
+
+export default BoardEditor;
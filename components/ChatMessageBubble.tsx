@@ -0,0 +1,116 @@
+import React, { useState } from 'react';
+import { AlertCircle, Loader2, Pencil, RefreshCw } from 'lucide-react';
+import { ChatMessage, MoveSuggestion } from '../types';
+import { GameLine } from '../services/coachValidation';
+import CoachText from './CoachText';
+import SuggestedLines from './SuggestedLines';
+
+interface ChatMessageBubbleProps {
+  message: ChatMessage;
+  disabled: boolean; // true while another reply is streaming
+  line: GameLine; // game the coach's move references are checked against
+  onSelectPly: (ply: number) => void;
+  fen: string; // position SAN tokens without a suggested line are read in
+  onPreview: (suggestion: MoveSuggestion) => void;
+  onRegenerate?: () => void;
+  onEditResend?: (content: string) => void;
+}
+
+const ChatMessageBubble: React.FC<ChatMessageBubbleProps> = ({ message, disabled, line, onSelectPly, fen, onPreview, onRegenerate, onEditResend }) => {
+  const [draft, setDraft] = useState<string | null>(null);
+  const isUser = message.role === 'user';
+
+  if (draft !== null) {
+    return (
+      <div className="flex justify-end">
+        <div className="w-[85%] p-2 rounded-2xl bg-slate-800 border border-indigo-500/50 space-y-2">
+          <textarea
+            value={draft}
+            onChange={(e) => setDraft(e.target.value)}
+            rows={3}
+            autoFocus
+            className="w-full bg-transparent text-sm text-slate-100 resize-none focus:outline-none px-1"
+          />
+          <div className="flex justify-end gap-2">
+            <button onClick={() => setDraft(null)} className="text-xs px-3 py-1 rounded-lg text-slate-400 hover:bg-slate-700">
+              Cancel
+            </button>
+            <button
+              onClick={() => {
+                onEditResend?.(draft.trim());
+                setDraft(null);
+              }}
+              disabled={disabled || !draft.trim()}
+              className="text-xs px-3 py-1 rounded-lg bg-indigo-600 hover:bg-indigo-500 disabled:opacity-50 text-white"
+            >
+              Send
+            </button>
+          </div>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className={`group flex flex-col ${isUser ? 'items-end' : 'items-start'}`}>
+      <div className={`max-w-[85%] p-3 rounded-2xl text-sm whitespace-pre-wrap ${isUser ? 'bg-indigo-600 text-white rounded-tr-none' : 'bg-slate-800 text-slate-200 border border-slate-700 rounded-tl-none'}`}>
+        {message.status === 'streaming' && !message.content ? (
+          <span className="flex items-center gap-2">
+            <Loader2 className="w-4 h-4 animate-spin text-purple-400" />
+            <span className="text-xs text-slate-400">Coach is thinking...</span>
+          </span>
+        ) : isUser ? (
+          message.content
+        ) : (
+          <CoachText
+            text={message.content}
+            line={line}
+            onSelectPly={onSelectPly}
+            fen={fen}
+            suggestions={message.suggestions}
+            onPreview={onPreview}
+          />
+        )}
+        {!!message.suggestions?.length && (
+          <div className="mt-3 whitespace-normal">
+            <SuggestedLines suggestions={message.suggestions} onPreview={onPreview} />
+          </div>
+        )}
+        {message.status === 'stopped' && (
+          <span className="block mt-2 text-[10px] uppercase tracking-widest text-slate-500">Stopped</span>
+        )}
+        {message.status === 'error' && (
+          <span className="flex items-start gap-1 mt-2 text-xs text-red-300">
+            <AlertCircle className="w-3 h-3 shrink-0 mt-0.5" /> {message.error}
+          </span>
+        )}
+      </div>
+      {message.status !== 'streaming' && (
+        <div className="flex gap-1 mt-1 opacity-0 group-hover:opacity-100 transition-opacity">
+          {isUser && onEditResend && (
+            <button
+              onClick={() => setDraft(message.content)}
+              disabled={disabled}
+              title="Edit and resend"
+              className="p-1 rounded text-slate-500 hover:text-slate-300 disabled:opacity-40"
+            >
+              <Pencil className="w-3 h-3" />
+            </button>
+          )}
+          {!isUser && onRegenerate && (
+            <button
+              onClick={onRegenerate}
+              disabled={disabled}
+              title="Regenerate"
+              className="p-1 rounded text-slate-500 hover:text-slate-300 disabled:opacity-40"
+            >
+              <RefreshCw className="w-3 h-3" />
+            </button>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ChatMessageBubble;
@@ -0,0 +1,88 @@
+import React from 'react';
+import { MoveReference, MoveSuggestion } from '../types';
+import { GameLine, SuggestedMoveToken, findMoveReferences, findSuggestedMoves } from '../services/coachValidation';
+
+interface CoachTextProps {
+  text: string;
+  line: GameLine;
+  onSelectPly?: (ply: number) => void;
+  // Bare SAN tokens become previews: of the reply's suggested lines, else of a legal move in `fen`.
+  fen?: string;
+  suggestions?: MoveSuggestion[];
+  onPreview?: (suggestion: MoveSuggestion) => void;
+}
+
+const REFERENCE_STYLES: Record<MoveReference['status'], string> = {
+  played: 'text-indigo-300 hover:underline',
+  alternative: 'underline decoration-dotted decoration-slate-500',
+  misnumbered: 'text-amber-300',
+  illegal: 'text-red-300 underline decoration-wavy decoration-red-400'
+};
+
+const referenceTitle = (ref: MoveReference) => {
+  switch (ref.status) {
+    case 'alternative': return `${ref.san} was not played in this game (legal alternative)`;
+    case 'misnumbered': return `Wrong move number: the game had ${ref.correction}`;
+    case 'illegal': return 'This move was not played and is not legal in the game position';
+    default: return 'Show this move';
+  }
+};
+
+type Segment = { index: number; length: number; node: (key: number) => React.ReactNode };
+
+// Coach text with every numbered move reference checked against the game: played moves link to the board, hallucinated ones are flagged or corrected.
+const CoachText: React.FC<CoachTextProps> = ({ text, line, onSelectPly, fen, suggestions = [], onPreview }) => {
+  const segments: Segment[] = findMoveReferences(text, line).map(ref => {
+    const onClick = (ref.status === 'played' || ref.status === 'misnumbered') && onSelectPly
+      ? () => onSelectPly(ref.ply)
+      : ref.status === 'alternative' && onPreview
+        ? () => onPreview({ fen: line.fens[ref.ply], moves: [ref.san] })
+        : undefined;
+    return {
+      index: ref.index,
+      length: ref.text.length,
+      node: key => (
+        <span
+          key={key}
+          title={referenceTitle(ref)}
+          onClick={onClick}
+          className={`font-mono ${REFERENCE_STYLES[ref.status]} ${onClick ? 'cursor-pointer' : ''}`}
+        >
+          {ref.status === 'misnumbered' ? <><s className="opacity-60">{ref.text}</s> {ref.correction}</> : ref.text}
+        </span>
+      )
+    };
+  });
+
+  if (fen && onPreview) {
+    const overlaps = (token: SuggestedMoveToken) =>
+      segments.some(s => token.index < s.index + s.length && s.index < token.index + token.text.length);
+    findSuggestedMoves(text, suggestions, fen).filter(t => !overlaps(t)).forEach(token => segments.push({
+      index: token.index,
+      length: token.text.length,
+      node: key => (
+        <span
+          key={key}
+          title="Preview on the board"
+          onClick={() => onPreview(token.suggestion)}
+          className="font-mono text-indigo-300 underline decoration-dotted cursor-pointer"
+        >
+          {token.text}
+        </span>
+      )
+    }));
+  }
+  if (!segments.length) return <>{text}</>;
+
+  const parts: React.ReactNode[] = [];
+  let cursor = 0;
+  segments.sort((a, b) => a.index - b.index).forEach((segment, i) => {
+    parts.push(text.slice(cursor, segment.index));
+    parts.push(segment.node(i));
+    cursor = segment.index + segment.length;
+  });
+  parts.push(text.slice(cursor));
+  return <>{parts}</>;
+};
+
+export default CoachText;
@@ -0,0 +1,46 @@
+import React from 'react';
+import { Cpu, Loader2 } from 'lucide-react';
+import { EngineEvaluation } from '../types';
+import { evaluationToCp, formatEvaluation, winProbability } from '../services/engineService';
+
+interface EngineEvalPanelProps {
+  evaluation?: EngineEvaluation;
+  engineName: string | null;
+  progress: { done: number; total: number };
+}
+
+const EngineEvalPanel: React.FC<EngineEvalPanelProps> = ({ evaluation, engineName, progress }) => {
+  const whiteShare = evaluation ? winProbability(evaluationToCp(evaluation)) : 50;
+  const isEvaluating = progress.done < progress.total;
+
+  return (
+    <div className="w-full mt-4 bg-slate-800/50 border border-slate-700 rounded-xl p-3 text-sm">
+      <div className="flex items-center justify-between mb-2">
+        <span className="flex items-center gap-2 text-xs text-slate-400">
+          <Cpu className="w-4 h-4" /> {engineName || 'Loading engine...'}
+        </span>
+        {isEvaluating && (
+          <span className="flex items-center gap-1 text-[10px] text-slate-500">
+            <Loader2 className="w-3 h-3 animate-spin" /> {progress.done}/{progress.total}
+          </span>
+        )}
+      </div>
+      <div className="h-2 w-full rounded-full bg-slate-950 overflow-hidden mb-2">
+        <div className="h-full bg-slate-100 transition-all duration-300" style={{ width: `${whiteShare}%` }} />
+      </div>
+      {evaluation ? (
+        <div className="flex items-baseline gap-3">
+          <span className="font-mono font-bold text-slate-100">{formatEvaluation(evaluation)}</span>
+          <span className="text-[10px] text-slate-500">depth {evaluation.depth}</span>
+          {evaluation.bestLine.length > 0 && (
+            <span className="font-mono text-xs text-slate-400 truncate">{evaluation.bestLine.join(' ')}</span>
+          )}
+        </div>
+      ) : (
+        <p className="text-xs text-slate-500 italic">No evaluation for this position yet.</p>
+      )}
+    </div>
+  );
+};
+
+export default EngineEvalPanel;
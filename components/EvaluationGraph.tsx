@@ -0,0 +1,89 @@
+import React from 'react';
+import { EngineEvaluation } from '../types';
+import {
+  BLUNDER_SWING,
+  MISTAKE_SWING,
+  evaluationToCp,
+  formatEvaluation,
+  winProbability,
+  winProbabilityLoss
+} from '../services/engineService';
+import { moveNumberLabel } from '../services/moveTree';
+
+interface EvaluationGraphProps {
+  fens: string[]; // start position followed by the position after each ply
+  evaluations: Record<string, EngineEvaluation>;
+  currentMoveIndex: number;
+  onSelectPly: (ply: number) => void;
+}
+
+const WIDTH = 500;
+const HEIGHT = 120;
+
+/**
+ * Win-probability chart for the whole game. Index 0 is the start position,
+ * index i + 1 the position after ply i, so clicking a point selects ply i.
+ */
+const EvaluationGraph: React.FC<EvaluationGraphProps> = ({ fens, evaluations, currentMoveIndex, onSelectPly }) => {
+  if (fens.length < 2) return null;
+
+  const step = WIDTH / (fens.length - 1);
+  const points = fens.map((fen, idx) => {
+    const evaluation = evaluations[fen];
+    const previous = idx > 0 ? evaluations[fens[idx - 1]] : undefined;
+    const loss = evaluation && previous ? winProbabilityLoss(previous, evaluation) : 0;
+    return {
+      idx,
+      evaluation,
+      x: idx * step,
+      y: evaluation ? HEIGHT - (winProbability(evaluationToCp(evaluation)) / 100) * HEIGHT : null,
+      swing: loss >= BLUNDER_SWING ? 'blunder' : loss >= MISTAKE_SWING ? 'mistake' : null
+    };
+  });
+  const known = points.filter(p => p.y !== null);
+  const line = known.map(p => `${p.x},${p.y}`).join(' ');
+  const area = known.length ? `${known[0].x},${HEIGHT / 2} ${line} ${known[known.length - 1].x},${HEIGHT / 2}` : '';
+
+  return (
+    <div className="w-full mt-4 bg-slate-800/50 border border-slate-700 rounded-xl p-2">
+      <svg viewBox={`0 0 ${WIDTH} ${HEIGHT}`} preserveAspectRatio="none" className="w-full h-28 cursor-pointer">
+        <rect x={0} y={0} width={WIDTH} height={HEIGHT} fill="#0f172a" rx={6} />
+        <polygon points={area} fill="#e2e8f0" fillOpacity={0.15} />
+        <line x1={0} y1={HEIGHT / 2} x2={WIDTH} y2={HEIGHT / 2} stroke="#475569" strokeDasharray="4 4" />
+        <line
+          x1={(currentMoveIndex + 1) * step}
+          y1={0}
+          x2={(currentMoveIndex + 1) * step}
+          y2={HEIGHT}
+          stroke="#818cf8"
+          strokeWidth={2}
+        />
+        <polyline points={line} fill="none" stroke="#e2e8f0" strokeWidth={1.5} vectorEffect="non-scaling-stroke" />
+        {points.map(p => (
+          <g key={p.idx} onClick={() => onSelectPly(p.idx - 1)}>
+            {/* Full-height hit area so every ply is easy to click */}
+            <rect x={p.x - step / 2} y={0} width={step} height={HEIGHT} fill="transparent">
+              <title>
+                {p.idx === 0 ? 'Start' : moveNumberLabel(fens[p.idx])}
+                {p.evaluation ? ` ${formatEvaluation(p.evaluation)}` : ''}
+                {p.swing ? ` (${p.swing})` : ''}
+              </title>
+            </rect>
+            {p.swing && p.y !== null && (
+              <circle
+                cx={p.x}
+                cy={p.y}
+                r={4}
+                fill={p.swing === 'blunder' ? '#f87171' : '#fb923c'}
+                stroke="#0f172a"
+                pointerEvents="none"
+              />
+            )}
+          </g>
+        ))}
+      </svg>
+    </div>
+  );
+};
+
+export default EvaluationGraph;
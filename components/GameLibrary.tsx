@@ -0,0 +1,172 @@
+import React, { useMemo, useState } from 'react';
+import { Download, Library, MessageSquare, Search, Tag, Trash2, Trophy, Upload, X } from 'lucide-react';
+import { LibraryGame } from '../types';
+
+interface GameLibraryProps {
+  games: LibraryGame[];
+  currentId: string | null;
+  onOpen: (game: LibraryGame) => void;
+  onDelete: (id: string) => void;
+  onUpdateTags: (game: LibraryGame, tags: string[]) => void;
+  onExport: () => void;
+  onImport: (json: string) => void;
+  onClose: () => void;
+}
+
+const SEARCHABLE_HEADERS = ['White', 'Black', 'Event', 'Site', 'ECO', 'Opening', 'Date'];
+
+const matchesQuery = (game: LibraryGame, needle: string) =>
+  SEARCHABLE_HEADERS.some(h => (game.headers[h] || '').toLowerCase().includes(needle)) ||
+  game.tags.some(t => t.toLowerCase().includes(needle));
+
+const GameLibrary: React.FC<GameLibraryProps> = ({
+  games,
+  currentId,
+  onOpen,
+  onDelete,
+  onUpdateTags,
+  onExport,
+  onImport,
+  onClose
+}) => {
+  const [query, setQuery] = useState('');
+  const [activeTag, setActiveTag] = useState<string | null>(null);
+  const [tagDrafts, setTagDrafts] = useState<Record<string, string>>({});
+
+  const allTags = useMemo(() => Array.from(new Set(games.flatMap(g => g.tags))).sort(), [games]);
+
+  const visibleGames = useMemo(() => {
+    const needle = query.trim().toLowerCase();
+    return games.filter(g => (!needle || matchesQuery(g, needle)) && (!activeTag || g.tags.includes(activeTag)));
+  }, [games, query, activeTag]);
+
+  const addTag = (game: LibraryGame) => {
+    const tag = (tagDrafts[game.id] || '').trim();
+    setTagDrafts(prev => ({ ...prev, [game.id]: '' }));
+    if (tag && !game.tags.includes(tag)) onUpdateTags(game, [...game.tags, tag]);
+  };
+
+  const handleImportFile = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (file) {
+      const reader = new FileReader();
+      reader.onload = (event) => onImport(event.target?.result as string);
+      reader.readAsText(file);
+    }
+    e.target.value = '';
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-slate-950/80 backdrop-blur-sm">
+      <div className="bg-slate-900 w-full max-w-2xl rounded-3xl border border-slate-800 shadow-2xl overflow-hidden flex flex-col max-h-[80vh]">
+        <div className="p-6 border-b border-slate-800 flex justify-between items-center">
+          <div>
+            <h2 className="text-xl font-bold flex items-center gap-2">
+              <Library className="w-5 h-5 text-indigo-400" /> Game Library
+            </h2>
+            <p className="text-sm text-slate-400">{games.length} saved games</p>
+          </div>
+          <div className="flex items-center gap-1">
+            <button onClick={onExport} title="Export library" className="p-2 hover:bg-slate-800 rounded-full text-slate-400">
+              <Download className="w-5 h-5" />
+            </button>
+            <label title="Import library" className="p-2 hover:bg-slate-800 rounded-full text-slate-400 cursor-pointer">
+              <Upload className="w-5 h-5" />
+              <input type="file" accept=".json,application/json" className="hidden" onChange={handleImportFile} />
+            </label>
+            <button onClick={onClose} className="p-2 hover:bg-slate-800 rounded-full">
+              <X className="w-6 h-6" />
+            </button>
+          </div>
+        </div>
+        <div className="px-4 pt-4 space-y-2">
+          <div className="relative">
+            <Search className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-slate-500" />
+            <input
+              type="text"
+              placeholder="Search players, event, tags..."
+              value={query}
+              onChange={(e) => setQuery(e.target.value)}
+              className="w-full bg-slate-800 border border-slate-700 rounded-lg py-2 pl-10 pr-4 focus:ring-2 focus:ring-indigo-500 focus:outline-none text-sm"
+            />
+          </div>
+          {allTags.length > 0 && (
+            <div className="flex flex-wrap gap-1">
+              {allTags.map(tag => (
+                <button
+                  key={tag}
+                  onClick={() => setActiveTag(activeTag === tag ? null : tag)}
+                  className={`text-[10px] px-2 py-1 rounded-full border transition-all ${
+                    activeTag === tag ? 'bg-indigo-600 border-indigo-500 text-white' : 'border-slate-700 text-slate-400 hover:bg-slate-800'
+                  }`}
+                >
+                  {tag}
+                </button>
+              ))}
+            </div>
+          )}
+        </div>
+        <div className="flex-1 overflow-y-auto p-4 space-y-3 custom-scrollbar">
+          {visibleGames.map((g) => (
+            <div
+              key={g.id}
+              className={`p-4 bg-slate-800 rounded-2xl border transition-all ${
+                g.id === currentId ? 'border-indigo-500/50' : 'border-slate-700'
+              }`}
+            >
+              <div className="flex justify-between items-start gap-3">
+                <button onClick={() => onOpen(g)} className="min-w-0 flex-1 text-left hover:text-indigo-300">
+                  <div className="font-semibold flex items-center gap-2">
+                    <span>{g.headers.White || '?'}</span>
+                    <span className="text-slate-500 text-xs">vs</span>
+                    <span>{g.headers.Black || '?'}</span>
+                    <span className="text-indigo-300 text-xs font-mono ml-auto">{g.headers.Result || '*'}</span>
+                  </div>
+                  <p className="text-xs text-slate-500 mt-1 truncate flex items-center gap-2">
+                    <span>{[g.source.toUpperCase(), g.headers.Event, g.headers.Date].filter(v => v && v !== '?').join(' • ')}</span>
+                    {g.analysis && <Trophy className="w-3 h-3 text-indigo-400 shrink-0" />}
+                    {g.chat.length > 0 && <MessageSquare className="w-3 h-3 text-purple-400 shrink-0" />}
+                    <span className="ml-auto shrink-0">Updated {new Date(g.updatedAt).toLocaleString()}</span>
+                  </p>
+                </button>
+                <button
+                  onClick={() => onDelete(g.id)}
+                  title="Delete from library"
+                  className="p-1.5 rounded-lg hover:bg-red-900/50 text-slate-500 transition-colors"
+                >
+                  <Trash2 className="w-4 h-4" />
+                </button>
+              </div>
+              <div className="mt-3 flex flex-wrap items-center gap-1">
+                <Tag className="w-3 h-3 text-slate-500" />
+                {g.tags.map(tag => (
+                  <span key={tag} className="text-[10px] pl-2 pr-1 py-0.5 rounded-full bg-slate-700 text-slate-300 flex items-center gap-1">
+                    {tag}
+                    <button onClick={() => onUpdateTags(g, g.tags.filter(t => t !== tag))} className="hover:text-red-400">
+                      <X className="w-3 h-3" />
+                    </button>
+                  </span>
+                ))}
+                <input
+                  type="text"
+                  placeholder="Add tag"
+                  value={tagDrafts[g.id] || ''}
+                  onChange={(e) => setTagDrafts(prev => ({ ...prev, [g.id]: e.target.value }))}
+                  onKeyDown={(e) => e.key === 'Enter' && addTag(g)}
+                  className="bg-transparent text-[10px] w-20 px-1 focus:outline-none text-slate-400"
+                />
+              </div>
+            </div>
+          ))}
+          {visibleGames.length === 0 && (
+            <p className="text-center text-slate-600 py-10 italic">
+              {games.length ? 'No games match your search' : 'Analysed and imported games will appear here'}
+            </p>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default GameLibrary;
@@ -0,0 +1,77 @@
+import React from 'react';
+import { LichessGameFilters, LichessPerfType, PlayerColor } from '../types';
+
+interface LichessFiltersProps {
+  filters: LichessGameFilters;
+  onChange: (filters: LichessGameFilters) => void;
+}
+
+const PERF_TYPES: LichessPerfType[] = ['ultraBullet', 'bullet', 'blitz', 'rapid', 'classical', 'correspondence'];
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const inputClass = 'w-full bg-slate-800 border border-slate-700 rounded-lg py-1.5 px-2 focus:ring-2 focus:ring-indigo-500 focus:outline-none text-xs';
+
+const toDateInput = (timestamp?: number) => (timestamp ? new Date(timestamp).toISOString().slice(0, 10) : '');
+const fromDateInput = (value: string, endOfDay: boolean) =>
+  value ? Date.parse(value) + (endOfDay ? DAY_MS - 1 : 0) : undefined;
+
+const LichessFilters: React.FC<LichessFiltersProps> = ({ filters, onChange }) => {
+  const update = (patch: Partial<LichessGameFilters>) => onChange({ ...filters, ...patch });
+
+  return (
+    <div className="grid grid-cols-2 gap-2 p-3 bg-slate-800/50 rounded-lg border border-slate-700">
+      <select
+        value={filters.perfType || ''}
+        onChange={(e) => update({ perfType: (e.target.value || undefined) as LichessPerfType | undefined })}
+        className={inputClass}
+      >
+        <option value="">All speeds</option>
+        {PERF_TYPES.map(perf => <option key={perf} value={perf}>{perf}</option>)}
+      </select>
+      <select
+        value={filters.color || ''}
+        onChange={(e) => update({ color: (e.target.value || undefined) as PlayerColor | undefined })}
+        className={inputClass}
+      >
+        <option value="">Both colors</option>
+        <option value="white">As White</option>
+        <option value="black">As Black</option>
+      </select>
+      <input
+        type="text"
+        placeholder="Opponent"
+        value={filters.opponent || ''}
+        onChange={(e) => update({ opponent: e.target.value || undefined })}
+        className={`col-span-2 ${inputClass}`}
+      />
+      <label className="text-[10px] text-slate-500">
+        From
+        <input
+          type="date"
+          value={toDateInput(filters.since)}
+          onChange={(e) => update({ since: fromDateInput(e.target.value, false) })}
+          className={inputClass}
+        />
+      </label>
+      <label className="text-[10px] text-slate-500">
+        To
+        <input
+          type="date"
+          value={toDateInput(filters.until)}
+          onChange={(e) => update({ until: fromDateInput(e.target.value, true) })}
+          className={inputClass}
+        />
+      </label>
+      <label className="flex items-center gap-2 text-xs text-slate-400">
+        <input type="checkbox" checked={!!filters.rated} onChange={(e) => update({ rated: e.target.checked || undefined })} />
+        Rated only
+      </label>
+      <label className="flex items-center gap-2 text-xs text-slate-400">
+        <input type="checkbox" checked={!!filters.analysed} onChange={(e) => update({ analysed: e.target.checked || undefined })} />
+        Analysed only
+      </label>
+    </div>
+  );
+};
+
+export default LichessFilters;
@@ -0,0 +1,41 @@
+import React from 'react';
+import { ChevronLeft, ChevronRight, GitBranchPlus, X } from 'lucide-react';
+import { LinePreview } from '../types';
+import { formatLine } from '../services/moveTree';
+
+interface LinePreviewBarProps {
+  preview: LinePreview;
+  canKeep: boolean; // the line starts at the selected position, so it can become a variation
+  onStep: (step: number) => void;
+  onKeep: () => void;
+  onClose: () => void;
+}
+
+const LinePreviewBar: React.FC<LinePreviewBarProps> = ({ preview, canKeep, onStep, onKeep, onClose }) => {
+  const { suggestion, moves, step } = preview;
+  return (
+    <div className="w-full mb-3 bg-indigo-600/10 border border-indigo-500/40 rounded-xl px-3 py-2 flex items-center gap-2 text-xs">
+      <span className="text-indigo-300 font-semibold shrink-0">Preview</span>
+      <span className="flex-1 font-mono text-slate-300 truncate" title={suggestion.description}>
+        {formatLine(suggestion.fen, moves.map(m => m.san))}
+      </span>
+      <span className="text-slate-500 shrink-0">{step}/{moves.length}</span>
+      <button onClick={() => onStep(step - 1)} disabled={step === 0} className="p-1 rounded hover:bg-slate-800 disabled:opacity-30">
+        <ChevronLeft className="w-4 h-4" />
+      </button>
+      <button onClick={() => onStep(step + 1)} disabled={step === moves.length} className="p-1 rounded hover:bg-slate-800 disabled:opacity-30">
+        <ChevronRight className="w-4 h-4" />
+      </button>
+      {canKeep && (
+        <button onClick={onKeep} title="Add to the game as a variation" className="p-1 rounded hover:bg-slate-800 text-slate-300">
+          <GitBranchPlus className="w-4 h-4" />
+        </button>
+      )}
+      <button onClick={onClose} title="Back to the game" className="p-1 rounded hover:bg-slate-800 text-slate-400">
+        <X className="w-4 h-4" />
+      </button>
+    </div>
+  );
+};
+
+export default LinePreviewBar;
@@ -0,0 +1,129 @@
+import React from 'react';
+import { Hourglass } from 'lucide-react';
+import { MoveAnnotation, MoveClock, MoveTree, MoveTreeNode } from '../types';
+import { getMainLine } from '../services/moveTree';
+import { formatClock } from '../services/clockService';
+import { CLASSIFICATION_STYLES, NAG_SYMBOLS } from './classificationStyles';
+
+interface MoveTreeViewProps {
+  tree: MoveTree;
+  currentNodeId: string;
+  annotationsByPly: Map<number, MoveAnnotation>;
+  leftTheoryAt: number | null; // main-line ply of the first move out of book
+  clocks?: (MoveClock | null)[]; // main-line clock readings, by ply
+  onSelect: (nodeId: string) => void;
+}
+
+const moveNumber = (parentFen: string) => parentFen.split(' ')[5];
+const isWhiteToMove = (fen: string) => fen.split(' ')[1] === 'w';
+// Comments without embedded commands such as [%clk 0:03:00].
+const plainComment = (comment?: string) => comment?.replace(/\[%[^\]]*\]/g, '').trim() || undefined;
+const nagText = (node: MoveTreeNode) => (node.nags || []).map(n => NAG_SYMBOLS[n] || '').join('');
+
+const MoveTreeView: React.FC<MoveTreeViewProps> = ({ tree, currentNodeId, annotationsByPly, leftTheoryAt, clocks, onSelect }) => {
+  const mainLine = getMainLine(tree);
+
+  const inlineMove = (node: MoveTreeNode, parentFen: string, forceNumber: boolean) => (
+    <button
+      key={node.id}
+      onClick={() => onSelect(node.id)}
+      title={plainComment(node.comment)}
+      className={`px-1 rounded transition-all ${
+        currentNodeId === node.id ? 'bg-indigo-600/30 text-indigo-300' : 'hover:bg-slate-800 text-slate-400'
+      }`}
+    >
+      {isWhiteToMove(parentFen) ? `${moveNumber(parentFen)}. ` : forceNumber ? `${moveNumber(parentFen)}... ` : ''}
+      {node.san}{nagText(node)}
+    </button>
+  );
+
+  // Renders the continuation after `from`, nesting deeper variations in parentheses.
+  const renderContinuation = (from: MoveTreeNode): React.ReactNode[] => {
+    const out: React.ReactNode[] = [];
+    let node = from;
+    let forceNumber = false;
+    while (node.children.length) {
+      const [main, ...sideLines] = node.children;
+      out.push(inlineMove(main, node.fen, forceNumber));
+      forceNumber = false;
+      sideLines.forEach(side => {
+        out.push(
+          <span key={`v-${side.id}`} className="text-slate-500">
+            ({inlineMove(side, node.fen, true)}{renderContinuation(side)})
+          </span>
+        );
+        forceNumber = true;
+      });
+      node = main;
+    }
+    return out;
+  };
+
+  if (mainLine.length === 0) {
+    return <p className="col-span-2 text-center text-slate-600 py-10 italic">No moves played yet</p>;
+  }
+
+  const cells: React.ReactNode[] = [];
+  let column = 0;
+  let parent = tree.root;
+  mainLine.forEach((node) => {
+    const idx = node.ply;
+    const white = isWhiteToMove(parent.fen);
+    if (!white && column === 0) {
+      cells.push(
+        <div key={`gap-${node.id}`} className="px-3 py-2 text-sm font-mono text-slate-600">{moveNumber(parent.fen)}. …</div>
+      );
+      column = 1;
+    }
+    // Annotations refer to the analysed main line; ignore them if the line was edited since.
+    const annotation = annotationsByPly.get(idx)?.san === node.san ? annotationsByPly.get(idx) : undefined;
+    const outOfBook = idx === leftTheoryAt;
+    const timeTrouble = clocks?.[idx]?.timeTrouble ? clocks[idx] : null;
+    cells.push(
+      <button
+        key={node.id}
+        onClick={() => onSelect(node.id)}
+        title={annotation?.comment || plainComment(node.comment) || (outOfBook ? 'First move out of book' : undefined)
+          || (timeTrouble ? `Played in time trouble, ${formatClock(timeTrouble.remainingSeconds)} left` : undefined)}
+        className={`text-left px-3 py-2 rounded-lg text-sm font-mono flex justify-between items-center transition-all ${
+          currentNodeId === node.id ? 'bg-indigo-600/20 text-indigo-400 border border-indigo-500/50' : 'hover:bg-slate-800 text-slate-400'
+        } ${outOfBook ? 'border-l-2 border-l-amber-400' : ''}`}
+      >
+        <span className="opacity-50">{moveNumber(parent.fen)}{white ? '.' : '...'}</span>
+        <span className="flex items-center">
+          {timeTrouble && <Hourglass className="w-3 h-3 mr-1 text-amber-400" />}
+          {node.san}
+          {annotation ? (
+            <span className={`ml-1 font-bold ${CLASSIFICATION_STYLES[annotation.classification].color}`}>
+              {CLASSIFICATION_STYLES[annotation.classification].symbol}
+            </span>
+          ) : nagText(node) && <span className="ml-1 font-bold text-slate-300">{nagText(node)}</span>}
+        </span>
+      </button>
+    );
+    column = (column + 1) % 2;
+
+    const sideLines = parent.children.slice(1);
+    if (sideLines.length) {
+      if (column === 1) {
+        cells.push(<div key={`fill-${node.id}`} className="px-3 py-2 text-sm font-mono text-slate-600">…</div>);
+        column = 0;
+      }
+      cells.push(
+        <div key={`vars-${node.id}`} className="col-span-2 border-l-2 border-slate-700 pl-3 py-1 space-y-1">
+          {sideLines.map(side => (
+            <div key={side.id} className="text-xs font-mono leading-6 flex flex-wrap gap-x-1">
+              {inlineMove(side, parent.fen, true)}
+              {renderContinuation(side)}
+            </div>
+          ))}
+        </div>
+      );
+    }
+    parent = node;
+  });
+
+  return <>{cells}</>;
+};
+
+export default MoveTreeView;
@@ -0,0 +1,60 @@
+import React from 'react';
+import { BookOpen } from 'lucide-react';
+import { BookMove, OpeningClassification } from '../types';
+import { moveNumberLabel } from '../services/moveTree';
+
+interface OpeningExplorerProps {
+  classification: OpeningClassification | null;
+  fens: string[]; // position after each main-line ply
+  history: string[];
+  bookMoves: BookMove[]; // continuations from the displayed position
+  onSelectPly: (ply: number) => void;
+  onPlayMove: (san: string) => void;
+}
+
+const OpeningExplorer: React.FC<OpeningExplorerProps> = ({ classification, fens, history, bookMoves, onSelectPly, onPlayMove }) => {
+  if (!classification) return null;
+  const { opening, leftTheoryAt } = classification;
+
+  return (
+    <div className="w-full mb-3 bg-slate-800/50 border border-slate-700 rounded-xl px-3 py-2 text-sm">
+      <div className="flex items-center justify-between gap-3">
+        <span className="flex items-center gap-2 min-w-0">
+          <BookOpen className="w-4 h-4 text-indigo-400 shrink-0" />
+          {opening ? (
+            <span className="truncate text-slate-200" title={opening.moves.join(' ')}>
+              <span className="font-mono text-indigo-300 mr-2">{opening.eco}</span>{opening.name}
+            </span>
+          ) : (
+            <span className="text-slate-500 italic">Starting position</span>
+          )}
+        </span>
+        {leftTheoryAt !== null && (
+          <button
+            onClick={() => onSelectPly(leftTheoryAt)}
+            title="First move out of book"
+            className="shrink-0 text-[10px] text-amber-300 hover:text-amber-200 font-mono"
+          >
+            out of book: {moveNumberLabel(fens[leftTheoryAt])} {history[leftTheoryAt]}
+          </button>
+        )}
+      </div>
+      {bookMoves.length > 0 && (
+        <div className="flex flex-wrap gap-1 mt-2">
+          {bookMoves.map(({ san, opening: line }) => (
+            <button
+              key={san}
+              onClick={() => onPlayMove(san)}
+              title={`${line.eco} ${line.name}`}
+              className="px-2 py-0.5 rounded-md bg-slate-900 hover:bg-indigo-600/30 text-xs font-mono text-slate-300 transition-all"
+            >
+              {san}
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default OpeningExplorer;
@@ -0,0 +1,129 @@
+import React, { useMemo, useState } from 'react';
+import { AlertCircle, ChevronRight, Search, X } from 'lucide-react';
+import { PgnDatabaseGame } from '../types';
+
+type SortKey = 'index' | 'date' | 'white' | 'black' | 'event' | 'elo';
+
+interface PgnGamePickerProps {
+  fileName: string;
+  games: PgnDatabaseGame[];
+  onSelect: (game: PgnDatabaseGame) => void;
+  onClose: () => void;
+}
+
+const SORT_LABELS: Record<SortKey, string> = {
+  index: 'File order',
+  date: 'Date',
+  white: 'White',
+  black: 'Black',
+  event: 'Event',
+  elo: 'Average Elo'
+};
+
+const SEARCHABLE_HEADERS = ['White', 'Black', 'Event', 'Site', 'ECO', 'Opening', 'Date', 'Result'];
+
+const averageElo = (g: PgnDatabaseGame) => {
+  const elos = [g.headers.WhiteElo, g.headers.BlackElo].map(e => parseInt(e || '', 10)).filter(e => !isNaN(e));
+  return elos.length ? elos.reduce((a, b) => a + b, 0) / elos.length : 0;
+};
+
+const compareGames = (key: SortKey) => (a: PgnDatabaseGame, b: PgnDatabaseGame): number => {
+  switch (key) {
+    case 'date': return (b.headers.Date || '').localeCompare(a.headers.Date || '');
+    case 'white': return (a.headers.White || '').localeCompare(b.headers.White || '');
+    case 'black': return (a.headers.Black || '').localeCompare(b.headers.Black || '');
+    case 'event': return (a.headers.Event || '').localeCompare(b.headers.Event || '');
+    case 'elo': return averageElo(b) - averageElo(a);
+    default: return a.index - b.index;
+  }
+};
+
+const PgnGamePicker: React.FC<PgnGamePickerProps> = ({ fileName, games, onSelect, onClose }) => {
+  const [query, setQuery] = useState('');
+  const [sortKey, setSortKey] = useState<SortKey>('index');
+  const failedCount = games.filter(g => g.error).length;
+
+  const visibleGames = useMemo(() => {
+    const needle = query.trim().toLowerCase();
+    return games
+      .filter(g => !needle || SEARCHABLE_HEADERS.some(h => (g.headers[h] || '').toLowerCase().includes(needle)))
+      .sort(compareGames(sortKey));
+  }, [games, query, sortKey]);
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-slate-950/80 backdrop-blur-sm">
+      <div className="bg-slate-900 w-full max-w-2xl rounded-3xl border border-slate-800 shadow-2xl overflow-hidden flex flex-col max-h-[80vh]">
+        <div className="p-6 border-b border-slate-800 flex justify-between items-center">
+          <div>
+            <h2 className="text-xl font-bold">Select Game</h2>
+            <p className="text-sm text-slate-400">
+              {games.length} games in {fileName}
+              {failedCount > 0 && <span className="text-red-400"> • {failedCount} could not be parsed</span>}
+            </p>
+          </div>
+          <button onClick={onClose} className="p-2 hover:bg-slate-800 rounded-full">
+            <X className="w-6 h-6" />
+          </button>
+        </div>
+        <div className="px-4 pt-4 flex gap-2">
+          <div className="relative flex-1">
+            <Search className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-slate-500" />
+            <input
+              type="text"
+              placeholder="Search players, event, ECO..."
+              value={query}
+              onChange={(e) => setQuery(e.target.value)}
+              className="w-full bg-slate-800 border border-slate-700 rounded-lg py-2 pl-10 pr-4 focus:ring-2 focus:ring-indigo-500 focus:outline-none text-sm"
+            />
+          </div>
+          <select
+            value={sortKey}
+            onChange={(e) => setSortKey(e.target.value as SortKey)}
+            className="bg-slate-800 border border-slate-700 rounded-lg px-3 text-sm text-slate-300 focus:outline-none"
+          >
+            {(Object.keys(SORT_LABELS) as SortKey[]).map(key => (
+              <option key={key} value={key}>{SORT_LABELS[key]}</option>
+            ))}
+          </select>
+        </div>
+        <div className="flex-1 overflow-y-auto p-4 space-y-3 custom-scrollbar">
+          {visibleGames.map((g) => (
+            <button
+              key={g.index}
+              onClick={() => onSelect(g)}
+              disabled={!!g.error}
+              className="w-full text-left p-4 bg-slate-800 hover:bg-indigo-600/20 hover:border-indigo-500/50 rounded-2xl border border-slate-700 transition-all flex justify-between items-center disabled:opacity-60 disabled:hover:bg-slate-800 disabled:hover:border-slate-700"
+            >
+              <div className="min-w-0">
+                <div className="font-semibold flex items-center gap-2">
+                  <span className="text-white">{g.headers.White || '?'}</span>
+                  {g.headers.WhiteElo && <span className="text-slate-500 text-xs">({g.headers.WhiteElo})</span>}
+                  <span className="text-slate-500 text-xs">vs</span>
+                  <span className="text-white">{g.headers.Black || '?'}</span>
+                  {g.headers.BlackElo && <span className="text-slate-500 text-xs">({g.headers.BlackElo})</span>}
+                  <span className="text-indigo-300 text-xs font-mono ml-auto">{g.headers.Result || '*'}</span>
+                </div>
+                <p className="text-xs text-slate-500 mt-1 truncate">
+                  {[g.headers.Event, g.headers.Date, g.headers.ECO, g.headers.TimeControl, g.plyCount ? `${Math.ceil(g.plyCount / 2)} moves` : null]
+                    .filter(v => v && v !== '?')
+                    .join(' • ')}
+                </p>
+                {g.error && (
+                  <p className="text-xs text-red-400 mt-1 flex items-center gap-1">
+                    <AlertCircle className="w-3 h-3 shrink-0" /> {g.error}
+                  </p>
+                )}
+              </div>
+              <ChevronRight className="w-5 h-5 text-slate-600 shrink-0" />
+            </button>
+          ))}
+          {visibleGames.length === 0 && (
+            <p className="text-center text-slate-600 py-10 italic">No games match your search</p>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default PgnGamePicker;
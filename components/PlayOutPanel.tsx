@@ -0,0 +1,233 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { Chessboard, PieceDropHandlerArgs } from 'react-chessboard';
+import { BrainCircuit, Loader2, Play, RotateCcw, Swords, Undo2, X } from 'lucide-react';
+import { ChessEngine, PlayStrength, PlayerColor } from '../types';
+import { PLAY_STRENGTHS, chooseOpponentMove, getPlayResult, replayPlayOut } from '../services/playService';
+import { formatLine } from '../services/moveTree';
+
+interface PlayOutPanelProps {
+  startFen: string;
+  engine: ChessEngine | null; // the coach picks the moves when there is none
+  engineName: string;
+  defaultColor: PlayerColor | null; // the side the user played in the game, else the side to move
+  onAnalyze: (moves: string[], headers: Record<string, string>) => void;
+  onClose: () => void;
+}
+
+const PlayOutPanel: React.FC<PlayOutPanelProps> = ({ startFen, engine, engineName, defaultColor, onAnalyze, onClose }) => {
+  const startTurn: PlayerColor = startFen.split(' ')[1] === 'b' ? 'black' : 'white';
+  const [color, setColor] = useState<PlayerColor>(defaultColor || startTurn);
+  const [strength, setStrength] = useState<PlayStrength>('club');
+  const [started, setStarted] = useState(false);
+  const [moves, setMoves] = useState<string[]>([]);
+  const [thinking, setThinking] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [retries, setRetries] = useState(0);
+  const [opponentSource, setOpponentSource] = useState<'engine' | 'coach' | null>(null);
+  // Replies to an earlier position (after a takeback or restart) are dropped.
+  const requestRef = useRef(0);
+
+  const chess = useMemo(() => replayPlayOut(startFen, moves), [startFen, moves]);
+  const result = started ? getPlayResult(chess) : null;
+  const userToMove = chess.turn() === color[0];
+  const opponentToMove = started && !result && !userToMove;
+  const lastMove = chess.history({ verbose: true }).pop();
+  const firstUserPly = startTurn === color ? 0 : 1;
+
+  useEffect(() => {
+    if (!opponentToMove) return;
+    const request = ++requestRef.current;
+    setThinking(true);
+    setError(null);
+    chooseOpponentMove(engine, chess, strength)
+      .then(move => {
+        if (request !== requestRef.current) return;
+        setMoves(prev => [...prev, move.san]);
+        setOpponentSource(move.source);
+      })
+      .catch(err => {
+        if (request === requestRef.current) setError(err.message);
+      })
+      .finally(() => {
+        if (request === requestRef.current) setThinking(false);
+      });
+  }, [opponentToMove, chess, retries]);
+
+  useEffect(() => () => {
+    requestRef.current++;
+  }, []);
+
+  const onPieceDrop = ({ sourceSquare, targetSquare }: PieceDropHandlerArgs) => {
+    if (!targetSquare || !started || result || thinking || !userToMove) return false;
+    try {
+      const next = replayPlayOut(startFen, moves);
+      const move = next.move({ from: sourceSquare, to: targetSquare, promotion: 'q' });
+      setMoves([...moves, move.san]);
+      return true;
+    } catch (e) {
+      return false;
+    }
+  };
+
+  // Takes back the user's last move, and the reply to it if there was one.
+  const takeBack = () => {
+    let next = moves.slice(0, -1);
+    if (replayPlayOut(startFen, next).turn() !== color[0]) next = next.slice(0, -1);
+    requestRef.current++;
+    setThinking(false);
+    setError(null);
+    setMoves(next);
+  };
+
+  const restart = () => {
+    requestRef.current++;
+    setThinking(false);
+    setError(null);
+    setMoves([]);
+    setStarted(false);
+  };
+
+  const analyze = () => {
+    const opponent = opponentSource === 'coach' || !engine
+      ? `Coach (${PLAY_STRENGTHS[strength].label})`
+      : `${engineName} (${PLAY_STRENGTHS[strength].label})`;
+    onAnalyze(moves, {
+      Event: `Play-out, ${new Date().toLocaleString()}`,
+      White: color === 'white' ? 'You' : opponent,
+      Black: color === 'black' ? 'You' : opponent,
+      Result: result?.result || '*'
+    });
+  };
+
+  const userScore = result && (result.result === '1/2-1/2' ? 'draw' : (result.result === '1-0') === (color === 'white') ? 'win' : 'loss');
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-slate-950/80 backdrop-blur-sm">
+      <div className="bg-slate-900 w-full max-w-3xl rounded-3xl border border-slate-800 shadow-2xl overflow-hidden flex flex-col max-h-[90vh]">
+        <div className="p-6 border-b border-slate-800 flex justify-between items-center">
+          <div>
+            <h2 className="text-xl font-bold flex items-center gap-2">
+              <Swords className="w-5 h-5 text-indigo-400" /> Play From Here
+            </h2>
+            <p className="text-sm text-slate-400">Test whether you can convert the position against {engine ? engineName : 'the coach'}.</p>
+          </div>
+          <button onClick={onClose} className="p-2 hover:bg-slate-800 rounded-full">
+            <X className="w-6 h-6" />
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-6 custom-scrollbar">
+          <div className="grid grid-cols-1 md:grid-cols-[1fr_220px] gap-6">
+            <div className="w-full max-w-[440px] aspect-square mx-auto">
+              <Chessboard
+                options={{
+                  id: 'play-out-board',
+                  position: chess.fen(),
+                  onPieceDrop,
+                  allowDragging: started && !result && !thinking,
+                  boardOrientation: color,
+                  squareStyles: lastMove
+                    ? { [lastMove.from]: { backgroundColor: 'rgba(99, 102, 241, 0.35)' }, [lastMove.to]: { backgroundColor: 'rgba(99, 102, 241, 0.5)' } }
+                    : {},
+                  boardStyle: { borderRadius: '12px', boxShadow: '0 5px 15px rgba(0, 0, 0, 0.5)' },
+                  darkSquareStyle: { backgroundColor: '#475569' },
+                  lightSquareStyle: { backgroundColor: '#cbd5e1' }
+                }}
+              />
+            </div>
+            <div className="space-y-4 text-sm">
+              {!started ? (
+                <>
+                  <div>
+                    <label className="text-xs font-medium text-slate-400 mb-2 block">Play as</label>
+                    <div className="grid grid-cols-2 gap-2 p-1 bg-slate-800 rounded-lg">
+                      {(['white', 'black'] as PlayerColor[]).map(c => (
+                        <button
+                          key={c}
+                          onClick={() => setColor(c)}
+                          className={`text-xs py-2 rounded-md capitalize transition-all ${color === c ? 'bg-indigo-600 text-white shadow-lg' : 'hover:bg-slate-700 text-slate-400'}`}
+                        >
+                          {c}
+                        </button>
+                      ))}
+                    </div>
+                  </div>
+                  <div>
+                    <label className="text-xs font-medium text-slate-400 mb-2 block">Opponent strength</label>
+                    <div className="grid grid-cols-2 gap-2 p-1 bg-slate-800 rounded-lg">
+                      {(Object.keys(PLAY_STRENGTHS) as PlayStrength[]).map(s => (
+                        <button
+                          key={s}
+                          onClick={() => setStrength(s)}
+                          className={`text-xs py-2 rounded-md transition-all ${strength === s ? 'bg-indigo-600 text-white shadow-lg' : 'hover:bg-slate-700 text-slate-400'}`}
+                        >
+                          {PLAY_STRENGTHS[s].label}
+                        </button>
+                      ))}
+                    </div>
+                  </div>
+                  <button
+                    onClick={() => setStarted(true)}
+                    className="w-full bg-indigo-600 hover:bg-indigo-500 py-2 rounded-lg font-semibold flex items-center justify-center gap-2"
+                  >
+                    <Play className="w-4 h-4" /> Start
+                  </button>
+                </>
+              ) : (
+                <>
+                  <div>
+                    <p className="font-semibold text-slate-200">
+                      {result
+                        ? userScore === 'win' ? 'You won' : userScore === 'loss' ? 'You lost' : 'Draw'
+                        : thinking ? 'Opponent is thinking…' : userToMove ? 'Your move' : 'Opponent to move'}
+                    </p>
+                    {result && <p className="text-xs text-slate-400">{result.result} by {result.reason}</p>}
+                    {thinking && <Loader2 className="w-4 h-4 animate-spin text-indigo-400 mt-1" />}
+                    {opponentSource === 'coach' && !result && (
+                      <p className="text-[10px] text-slate-500 mt-1">Opponent moves come from the coach, checked for legality.</p>
+                    )}
+                  </div>
+                  {error && (
+                    <div className="text-xs text-red-300 space-y-1">
+                      <p>{error}</p>
+                      <button onClick={() => setRetries(r => r + 1)} className="text-indigo-300 hover:text-indigo-200">
+                        Try again
+                      </button>
+                    </div>
+                  )}
+                  <p className="font-mono text-xs text-slate-300 leading-relaxed break-words">
+                    {moves.length ? formatLine(startFen, moves) : <span className="text-slate-500 italic font-sans">No moves yet.</span>}
+                  </p>
+                  <div className="flex flex-col gap-2">
+                    <button
+                      onClick={takeBack}
+                      disabled={thinking || moves.length <= firstUserPly}
+                      className="bg-slate-800 hover:bg-slate-700 disabled:opacity-50 py-2 rounded-lg flex items-center justify-center gap-2"
+                    >
+                      <Undo2 className="w-4 h-4" /> Take back
+                    </button>
+                    <button
+                      onClick={restart}
+                      className="bg-slate-800 hover:bg-slate-700 py-2 rounded-lg flex items-center justify-center gap-2"
+                    >
+                      <RotateCcw className="w-4 h-4" /> Restart
+                    </button>
+                    <button
+                      onClick={analyze}
+                      disabled={!moves.length || thinking}
+                      className={`${result ? 'bg-indigo-600 hover:bg-indigo-500 font-semibold' : 'bg-slate-800 hover:bg-slate-700'} disabled:opacity-50 py-2 rounded-lg flex items-center justify-center gap-2`}
+                    >
+                      <BrainCircuit className="w-4 h-4" /> Analyze this game
+                    </button>
+                  </div>
+                </>
+              )}
+            </div>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default PlayOutPanel;
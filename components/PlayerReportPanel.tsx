@@ -0,0 +1,221 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { BarChart3, Loader2, Square, Target, X } from 'lucide-react';
+import { GamePhase, PlayerReport, ResultStats } from '../types';
+import { fetchLichessGamesPgn } from '../services/lichessService';
+import { analyzePlayerGames, buildPlayerReport } from '../services/reportService';
+
+interface PlayerReportPanelProps {
+  initialUsername: string;
+  onClose: () => void;
+}
+
+type ReportStage = 'idle' | 'fetching' | 'analyzing' | 'planning' | 'done';
+
+const GAME_COUNTS = [10, 25, 50];
+
+const PHASE_LABELS: Record<GamePhase, string> = {
+  opening: 'Opening',
+  middlegame: 'Middlegame',
+  tactics: 'Tactics',
+  endgame: 'Endgame'
+};
+
+const inputClass = 'bg-slate-800 border border-slate-700 rounded-lg py-2 px-3 focus:ring-2 focus:ring-indigo-500 focus:outline-none text-sm';
+
+const PlayerReportPanel: React.FC<PlayerReportPanelProps> = ({ initialUsername, onClose }) => {
+  const [username, setUsername] = useState(initialUsername);
+  const [gameCount, setGameCount] = useState(GAME_COUNTS[0]);
+  const [stage, setStage] = useState<ReportStage>('idle');
+  const [progress, setProgress] = useState({ done: 0, total: 0 });
+  const [report, setReport] = useState<PlayerReport | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const abortRef = useRef<AbortController | null>(null);
+
+  useEffect(() => () => abortRef.current?.abort(), []);
+
+  const runReport = async () => {
+    if (!username.trim()) return;
+    const controller = new AbortController();
+    abortRef.current = controller;
+    setReport(null);
+    setError(null);
+    setStage('fetching');
+    try {
+      const pgnText = await fetchLichessGamesPgn(username.trim(), gameCount, controller.signal);
+      setStage('analyzing');
+      const games = await analyzePlayerGames(username.trim(), pgnText, {
+        signal: controller.signal,
+        onProgress: (done, total) => setProgress({ done, total })
+      });
+      setStage('planning');
+      setReport(await buildPlayerReport(username.trim(), games));
+      setStage('done');
+    } catch (err: any) {
+      setError(controller.signal.aborted && err?.name === 'AbortError' ? 'Report cancelled.' : err.message);
+      setStage('idle');
+    } finally {
+      abortRef.current = null;
+    }
+  };
+
+  const running = stage === 'fetching' || stage === 'analyzing' || stage === 'planning';
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-slate-950/80 backdrop-blur-sm">
+      <div className="bg-slate-900 w-full max-w-3xl rounded-3xl border border-slate-800 shadow-2xl overflow-hidden flex flex-col max-h-[85vh]">
+        <div className="p-6 border-b border-slate-800 flex justify-between items-center">
+          <div>
+            <h2 className="text-xl font-bold flex items-center gap-2">
+              <BarChart3 className="w-5 h-5 text-indigo-400" /> Player Report
+            </h2>
+            <p className="text-sm text-slate-400">Strengths and weaknesses across recent Lichess games</p>
+          </div>
+          <button onClick={onClose} className="p-2 hover:bg-slate-800 rounded-full">
+            <X className="w-6 h-6" />
+          </button>
+        </div>
+        <div className="p-4 flex gap-2 border-b border-slate-800">
+          <input
+            type="text"
+            placeholder="Lichess Username"
+            value={username}
+            disabled={running}
+            onChange={(e) => setUsername(e.target.value)}
+            onKeyDown={(e) => e.key === 'Enter' && !running && runReport()}
+            className={`flex-1 ${inputClass}`}
+          />
+          <select
+            value={gameCount}
+            disabled={running}
+            onChange={(e) => setGameCount(parseInt(e.target.value, 10))}
+            className={inputClass}
+          >
+            {GAME_COUNTS.map(n => <option key={n} value={n}>Last {n} games</option>)}
+          </select>
+          {running ? (
+            <button
+              onClick={() => abortRef.current?.abort()}
+              disabled={stage === 'planning'}
+              title="Stop after the current batch"
+              className="bg-slate-700 hover:bg-slate-600 px-4 rounded-lg text-sm flex items-center gap-2 disabled:opacity-50"
+            >
+              <Square className="w-4 h-4" /> Cancel
+            </button>
+          ) : (
+            <button
+              onClick={runReport}
+              disabled={!username.trim()}
+              className="bg-indigo-600 hover:bg-indigo-500 disabled:opacity-50 px-4 rounded-lg text-sm font-semibold"
+            >
+              Build report
+            </button>
+          )}
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-6 space-y-6 custom-scrollbar">
+          {running && (
+            <div className="space-y-2">
+              <p className="text-sm text-slate-400 flex items-center gap-2">
+                <Loader2 className="w-4 h-4 animate-spin" />
+                {stage === 'fetching' && 'Downloading games...'}
+                {stage === 'analyzing' && `Analysing games ${progress.done}/${progress.total}...`}
+                {stage === 'planning' && 'Writing the training plan...'}
+              </p>
+              <div className="h-2 bg-slate-800 rounded-full overflow-hidden">
+                <div
+                  className="h-full bg-indigo-500 transition-all"
+                  style={{ width: `${progress.total ? (progress.done / progress.total) * 100 : 0}%` }}
+                />
+              </div>
+            </div>
+          )}
+
+          {error && <p className="text-sm text-red-300">{error}</p>}
+
+          {report && (
+            <>
+              <p className="text-sm text-slate-400">
+                {report.gamesAnalyzed} games analysed for <span className="text-white font-semibold">{report.username}</span>
+              </p>
+              <div className="grid grid-cols-4 gap-3">
+                {(Object.keys(PHASE_LABELS) as GamePhase[]).map(phase => (
+                  <div
+                    key={phase}
+                    className={`p-3 rounded-xl border ${
+                      phase === report.weakestPhase ? 'border-red-500/50 bg-red-500/10' : 'border-slate-700 bg-slate-800/50'
+                    }`}
+                  >
+                    <p className="text-[10px] font-bold text-slate-400 uppercase tracking-widest">{PHASE_LABELS[phase]}</p>
+                    <p className="text-xl font-bold">{report.phaseAverages[phase]}%</p>
+                    {phase === report.weakestPhase && <p className="text-[10px] text-red-300">Weakest phase</p>}
+                  </div>
+                ))}
+              </div>
+              <p className="text-sm text-slate-300">
+                Per game: {report.moveErrors.inaccuracy} inaccuracies, {report.moveErrors.mistake} mistakes,{' '}
+                {report.moveErrors.blunder} blunders
+              </p>
+
+              {report.tacticalMisses.length > 0 && (
+                <ReportSection title="Common tactical misses">
+                  <ul className="list-disc list-inside text-sm text-slate-300 space-y-1">
+                    {report.tacticalMisses.map((miss, idx) => <li key={idx}>{miss}</li>)}
+                  </ul>
+                </ReportSection>
+              )}
+
+              <div className="grid md:grid-cols-3 gap-4">
+                <ReportSection title="Openings that lose most"><StatsTable stats={report.losingOpenings} /></ReportSection>
+                <ReportSection title="By color"><StatsTable stats={report.byColor} /></ReportSection>
+                <ReportSection title="By time control"><StatsTable stats={report.byTimeControl} /></ReportSection>
+              </div>
+
+              <ReportSection title="Training plan">
+                <ol className="space-y-3">
+                  {report.trainingPlan.map((item, idx) => (
+                    <li key={idx} className="bg-slate-800/50 p-4 rounded-xl border border-slate-700">
+                      <p className="font-semibold flex items-center gap-2">
+                        <Target className="w-4 h-4 text-indigo-400" /> {idx + 1}. {item.focus}
+                      </p>
+                      <p className="text-sm text-slate-400 mt-1">{item.reason}</p>
+                      <ul className="list-disc list-inside text-sm text-slate-300 mt-2">
+                        {item.exercises.map((exercise, i) => <li key={i}>{exercise}</li>)}
+                      </ul>
+                    </li>
+                  ))}
+                </ol>
+              </ReportSection>
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+const ReportSection: React.FC<{ title: string; children: React.ReactNode }> = ({ title, children }) => (
+  <div>
+    <h3 className="text-xs font-bold text-slate-400 uppercase tracking-widest mb-2">{title}</h3>
+    {children}
+  </div>
+);
+
+const StatsTable: React.FC<{ stats: ResultStats[] }> = ({ stats }) =>
+  stats.length === 0 ? (
+    <p className="text-xs text-slate-600 italic">None</p>
+  ) : (
+    <table className="w-full text-xs">
+      <tbody>
+        {stats.map(s => (
+          <tr key={s.label} className="border-b border-slate-800">
+            <td className="py-1 pr-2 text-slate-300">{s.label}</td>
+            <td className="py-1 text-right font-mono text-slate-400 whitespace-nowrap">
+              <span className="text-emerald-400">+{s.wins}</span> ={s.draws} <span className="text-red-400">-{s.losses}</span>
+            </td>
+          </tr>
+        ))}
+      </tbody>
+    </table>
+  );
+
+export default PlayerReportPanel;
@@ -0,0 +1,227 @@
+import React, { useMemo, useState } from 'react';
+import { Chessboard, PieceDropHandlerArgs } from 'react-chessboard';
+import { Check, Eye, Lightbulb, Puzzle as PuzzleIcon, RotateCcw, SkipForward, X } from 'lucide-react';
+import { LibraryGame, LineMove, Puzzle, PuzzleResult } from '../types';
+import {
+  PuzzleSourceGame,
+  getDuePuzzles,
+  loadPuzzles,
+  mergePuzzles,
+  puzzlesFromGame,
+  reviewPuzzle,
+  savePuzzles
+} from '../services/puzzleService';
+import { applyMove, moveNumberLabel } from '../services/moveTree';
+import { parseFen } from '../services/fenService';
+import { CLASSIFICATION_STYLES } from './classificationStyles';
+
+interface PuzzleTrainerProps {
+  currentGame: PuzzleSourceGame | null;
+  libraryGames: LibraryGame[];
+  playerName: string; // restricts new puzzles to this player's own errors when set
+  onClose: () => void;
+}
+
+type PuzzleStatus = 'playing' | 'wrong' | 'solved' | 'revealed';
+
+const PIECE_NAMES: Record<string, string> = { p: 'pawn', n: 'knight', b: 'bishop', r: 'rook', q: 'queen', k: 'king' };
+
+const solutionMove = (puzzle: Puzzle): (LineMove & { piece: string }) | null => {
+  const move = applyMove(puzzle.fen, puzzle.solution);
+  return move && { ...move, piece: parseFen(puzzle.fen).pieces[move.from][1].toLowerCase() };
+};
+
+const PuzzleTrainer: React.FC<PuzzleTrainerProps> = ({ currentGame, libraryGames, playerName, onClose }) => {
+  const [puzzles, setPuzzles] = useState<Puzzle[]>(loadPuzzles);
+  // Puzzle ids for this session: those due when opened, plus any failed again since.
+  const [queue, setQueue] = useState<string[]>(() => getDuePuzzles(loadPuzzles()).map(p => p.id));
+  const [status, setStatus] = useState<PuzzleStatus>('playing');
+  const [attempts, setAttempts] = useState(0);
+  const [hinted, setHinted] = useState(false);
+  const [message, setMessage] = useState<string | null>(null);
+
+  const puzzle = puzzles.find(p => p.id === queue[0]);
+  const solution = useMemo(() => (puzzle ? solutionMove(puzzle) : null), [puzzle?.id]);
+  const dueCount = getDuePuzzles(puzzles).length;
+  const finished = status === 'solved' || status === 'revealed';
+
+  const updatePuzzles = (next: Puzzle[]) => {
+    setPuzzles(next);
+    try {
+      savePuzzles(next);
+    } catch (err: any) {
+      setMessage(err.message);
+    }
+  };
+
+  const addPuzzles = (games: PuzzleSourceGame[]) => {
+    const { puzzles: merged, added } = mergePuzzles(puzzles, games.flatMap(g => puzzlesFromGame(g, playerName)));
+    updatePuzzles(merged);
+    const addedIds = merged.slice(merged.length - added).map(p => p.id);
+    setQueue(prev => [...prev, ...addedIds]);
+    setMessage(added ? `Added ${added} puzzle${added === 1 ? '' : 's'}.` : 'No new mistakes with a known better move.');
+  };
+
+  const finishPuzzle = (result: PuzzleResult) => {
+    if (!puzzle) return;
+    updatePuzzles(puzzles.map(p => (p.id === puzzle.id ? reviewPuzzle(p, result) : p)));
+    // Failed puzzles come back at the end of this session as well.
+    if (result === 'failed') setQueue(prev => [...prev, puzzle.id]);
+  };
+
+  const nextPuzzle = () => {
+    setQueue(prev => prev.slice(1));
+    setStatus('playing');
+    setAttempts(0);
+    setHinted(false);
+  };
+
+  const onPieceDrop = ({ sourceSquare, targetSquare }: PieceDropHandlerArgs) => {
+    if (!puzzle || !solution || !targetSquare || finished) return false;
+    const played = applyMove(puzzle.fen, { from: sourceSquare, to: targetSquare, promotion: 'q' });
+    if ((sourceSquare === solution.from && targetSquare === solution.to) || played?.san === solution.san) {
+      setStatus('solved');
+      finishPuzzle(attempts === 0 && !hinted ? 'solved' : 'hinted');
+      return true;
+    }
+    if (!played) return false; // illegal moves just snap back
+    setAttempts(a => a + 1);
+    setStatus('wrong');
+    return false;
+  };
+
+  const reveal = () => {
+    setStatus('revealed');
+    finishPuzzle('failed');
+  };
+
+  const position = puzzle && solution && finished ? solution.fen : puzzle?.fen;
+  const sideToMove = puzzle?.fen.split(' ')[1] === 'b' ? 'black' : 'white';
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-slate-950/80 backdrop-blur-sm">
+      <div className="bg-slate-900 w-full max-w-3xl rounded-3xl border border-slate-800 shadow-2xl overflow-hidden flex flex-col max-h-[90vh]">
+        <div className="p-6 border-b border-slate-800 flex justify-between items-center">
+          <div>
+            <h2 className="text-xl font-bold flex items-center gap-2">
+              <PuzzleIcon className="w-5 h-5 text-indigo-400" /> Puzzle Trainer
+            </h2>
+            <p className="text-sm text-slate-400">
+              {puzzles.length} puzzle{puzzles.length === 1 ? '' : 's'} from your mistakes, {dueCount} due now
+            </p>
+          </div>
+          <button onClick={onClose} className="p-2 hover:bg-slate-800 rounded-full">
+            <X className="w-6 h-6" />
+          </button>
+        </div>
+        <div className="p-4 flex flex-wrap items-center gap-2 border-b border-slate-800 text-sm">
+          <button
+            onClick={() => currentGame && addPuzzles([currentGame])}
+            disabled={!currentGame?.analysis}
+            title={currentGame?.analysis ? undefined : 'Analyze the current game first'}
+            className="bg-slate-800 hover:bg-slate-700 disabled:opacity-50 px-3 py-2 rounded-lg"
+          >
+            Add from this game
+          </button>
+          <button
+            onClick={() => addPuzzles(libraryGames)}
+            disabled={!libraryGames.some(g => g.analysis)}
+            className="bg-slate-800 hover:bg-slate-700 disabled:opacity-50 px-3 py-2 rounded-lg"
+          >
+            Add from library
+          </button>
+          {message && <span className="text-xs text-slate-400">{message}</span>}
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-6 custom-scrollbar">
+          {!puzzle || !solution ? (
+            <p className="text-center text-slate-500 py-16 italic">
+              {puzzles.length ? 'No puzzles due. Come back later, or add puzzles from more games.' : 'Analyze a game, then add its mistakes as puzzles.'}
+            </p>
+          ) : (
+            <div className="grid grid-cols-1 md:grid-cols-[1fr_220px] gap-6">
+              <div className="w-full max-w-[440px] aspect-square mx-auto">
+                <Chessboard
+                  options={{
+                    id: 'puzzle-board',
+                    position,
+                    onPieceDrop,
+                    allowDragging: !finished,
+                    boardOrientation: sideToMove,
+                    squareStyles: hinted && !finished ? { [solution.from]: { backgroundColor: 'rgba(251, 191, 36, 0.5)' } } : {},
+                    arrows: finished ? [{ startSquare: solution.from, endSquare: solution.to, color: 'rgba(52, 211, 153, 0.8)' }] : [],
+                    boardStyle: { borderRadius: '12px', boxShadow: '0 5px 15px rgba(0, 0, 0, 0.5)' },
+                    darkSquareStyle: { backgroundColor: '#475569' },
+                    lightSquareStyle: { backgroundColor: '#cbd5e1' }
+                  }}
+                />
+              </div>
+              <div className="space-y-4 text-sm">
+                <div>
+                  <p className="font-semibold text-slate-200">{sideToMove === 'white' ? 'White' : 'Black'} to move</p>
+                  <p className="text-xs text-slate-500">{puzzle.white} vs {puzzle.black}</p>
+                  <p className="text-xs text-slate-400 mt-2">
+                    In the game {moveNumberLabel(solution.fen)} {puzzle.playedSan} was a{' '}
+                    <span className={CLASSIFICATION_STYLES[puzzle.classification].color}>{puzzle.classification}</span>. Find the better move.
+                  </p>
+                </div>
+
+                {status === 'wrong' && <p className="text-amber-300">Not the best move. Try again.</p>}
+                {hinted && !finished && (
+                  <p className="text-slate-300">Hint: move your {PIECE_NAMES[solution.piece]} on {solution.from}.</p>
+                )}
+                {finished && (
+                  <div className="space-y-2">
+                    <p className={`flex items-center gap-2 font-semibold ${status === 'solved' ? 'text-emerald-400' : 'text-slate-300'}`}>
+                      {status === 'solved' ? <Check className="w-4 h-4" /> : <Eye className="w-4 h-4" />}
+                      {status === 'solved' ? 'Correct' : 'Solution'}: {solution.san}
+                    </p>
+                    {puzzle.comment && <p className="text-xs text-slate-400 italic">{puzzle.comment}</p>}
+                  </div>
+                )}
+
+                <div className="flex flex-col gap-2">
+                  {!finished ? (
+                    <>
+                      <button
+                        onClick={() => setHinted(true)}
+                        disabled={hinted}
+                        className="bg-slate-800 hover:bg-slate-700 disabled:opacity-50 py-2 rounded-lg flex items-center justify-center gap-2"
+                      >
+                        <Lightbulb className="w-4 h-4" /> Hint
+                      </button>
+                      {status === 'wrong' && (
+                        <button
+                          onClick={() => setStatus('playing')}
+                          className="bg-slate-800 hover:bg-slate-700 py-2 rounded-lg flex items-center justify-center gap-2"
+                        >
+                          <RotateCcw className="w-4 h-4" /> Retry
+                        </button>
+                      )}
+                      <button
+                        onClick={reveal}
+                        className="bg-slate-800 hover:bg-slate-700 py-2 rounded-lg flex items-center justify-center gap-2"
+                      >
+                        <Eye className="w-4 h-4" /> Show solution
+                      </button>
+                    </>
+                  ) : (
+                    <button
+                      onClick={nextPuzzle}
+                      className="bg-indigo-600 hover:bg-indigo-500 py-2 rounded-lg font-semibold flex items-center justify-center gap-2"
+                    >
+                      <SkipForward className="w-4 h-4" /> Next puzzle
+                    </button>
+                  )}
+                  {attempts > 0 && <p className="text-[10px] text-slate-500 text-center">{attempts} wrong attempt{attempts === 1 ? '' : 's'}</p>}
+                </div>
+              </div>
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default PuzzleTrainer;
@@ -0,0 +1,116 @@
+import React, { useState } from 'react';
+import { Settings, Trash2, X } from 'lucide-react';
+import { LlmProviderId, LlmSettings } from '../types';
+import { LLM_PROVIDERS } from '../services/llmService';
+import { clearAnalysisCache, getAnalysisCacheSize } from '../services/analysisCacheService';
+
+interface SettingsPanelProps {
+  settings: LlmSettings;
+  onSave: (settings: LlmSettings) => void;
+  onClose: () => void;
+}
+
+const inputClass = 'w-full bg-slate-800 border border-slate-700 rounded-lg py-2 px-3 focus:ring-2 focus:ring-indigo-500 focus:outline-none text-sm';
+
+const SettingsPanel: React.FC<SettingsPanelProps> = ({ settings, onSave, onClose }) => {
+  const [draft, setDraft] = useState<LlmSettings>(settings);
+  const [cacheSize, setCacheSize] = useState(getAnalysisCacheSize);
+
+  const changeProvider = (provider: LlmProviderId) => {
+    setDraft({ ...draft, provider, model: LLM_PROVIDERS[provider].defaultModel });
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-slate-950/80 backdrop-blur-sm">
+      <div className="bg-slate-900 w-full max-w-md rounded-3xl border border-slate-800 shadow-2xl overflow-hidden">
+        <div className="p-6 border-b border-slate-800 flex justify-between items-center">
+          <h2 className="text-xl font-bold flex items-center gap-2">
+            <Settings className="w-5 h-5 text-indigo-400" /> Coach Settings
+          </h2>
+          <button onClick={onClose} className="p-2 hover:bg-slate-800 rounded-full">
+            <X className="w-6 h-6" />
+          </button>
+        </div>
+        <div className="p-6 space-y-4">
+          <div>
+            <label className="text-sm font-medium text-slate-400 mb-2 block">Provider</label>
+            <div className="grid grid-cols-3 gap-2 p-1 bg-slate-800 rounded-lg">
+              {(Object.keys(LLM_PROVIDERS) as LlmProviderId[]).map((provider) => (
+                <button
+                  key={provider}
+                  onClick={() => changeProvider(provider)}
+                  className={`text-xs py-2 rounded-md transition-all ${
+                    draft.provider === provider ? 'bg-indigo-600 text-white shadow-lg' : 'hover:bg-slate-700 text-slate-400'
+                  }`}
+                >
+                  {LLM_PROVIDERS[provider].label}
+                </button>
+              ))}
+            </div>
+          </div>
+          <div>
+            <label className="text-sm font-medium text-slate-400 mb-2 block">Model</label>
+            <input
+              type="text"
+              value={draft.model}
+              placeholder={LLM_PROVIDERS[draft.provider].defaultModel}
+              onChange={(e) => setDraft({ ...draft, model: e.target.value })}
+              className={inputClass}
+            />
+          </div>
+          {draft.provider === 'openai' && (
+            <div>
+              <label className="text-sm font-medium text-slate-400 mb-2 block">Base URL</label>
+              <input
+                type="text"
+                value={draft.baseUrl}
+                placeholder="http://localhost:11434/v1"
+                onChange={(e) => setDraft({ ...draft, baseUrl: e.target.value })}
+                className={inputClass}
+              />
+            </div>
+          )}
+          {draft.provider !== 'mock' && (
+            <div>
+              <label className="text-sm font-medium text-slate-400 mb-2 block">API Key</label>
+              <input
+                type="password"
+                value={draft.apiKey}
+                placeholder={draft.provider === 'gemini' ? 'Use GEMINI_API_KEY from the build' : 'Not required for local servers'}
+                onChange={(e) => setDraft({ ...draft, apiKey: e.target.value })}
+                className={inputClass}
+              />
+              <p className="text-[10px] text-slate-500 mt-1">Stored in this browser only.</p>
+            </div>
+          )}
+          {draft.provider === 'mock' && (
+            <p className="text-xs text-slate-500">Deterministic offline answers for demos and tests. No network requests are made.</p>
+          )}
+          <div className="flex items-center justify-between border-t border-slate-800 pt-4">
+            <span className="text-xs text-slate-500">
+              {cacheSize} cached analys{cacheSize === 1 ? 'is' : 'es'}
+            </span>
+            <button
+              onClick={() => {
+                clearAnalysisCache();
+                setCacheSize(0);
+              }}
+              disabled={cacheSize === 0}
+              className="text-xs text-slate-400 hover:text-red-300 disabled:opacity-50 flex items-center gap-1"
+            >
+              <Trash2 className="w-3 h-3" /> Clear cache
+            </button>
+          </div>
+          <button
+            onClick={() => onSave(draft)}
+            className="w-full bg-gradient-to-r from-indigo-600 to-purple-600 text-white py-3 rounded-xl font-semibold shadow-lg transition-all"
+          >
+            Save
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default SettingsPanel;
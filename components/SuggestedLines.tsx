@@ -0,0 +1,30 @@
+import React from 'react';
+import { Eye } from 'lucide-react';
+import { MoveSuggestion } from '../types';
+import { formatLine } from '../services/moveTree';
+
+interface SuggestedLinesProps {
+  suggestions: MoveSuggestion[];
+  onPreview: (suggestion: MoveSuggestion) => void;
+}
+
+const SuggestedLines: React.FC<SuggestedLinesProps> = ({ suggestions, onPreview }) => (
+  <div className="space-y-1">
+    {suggestions.map((suggestion, idx) => (
+      <button
+        key={idx}
+        onClick={() => onPreview(suggestion)}
+        title="Preview on the board"
+        className="w-full text-left flex items-start gap-2 px-2 py-1 rounded-lg bg-slate-900/60 hover:bg-indigo-600/20 transition-all"
+      >
+        <Eye className="w-3 h-3 mt-1 shrink-0 text-indigo-400" />
+        <span className="text-xs">
+          <span className="font-mono text-slate-200">{formatLine(suggestion.fen, suggestion.moves)}</span>
+          {suggestion.description && <span className="text-slate-400"> — {suggestion.description}</span>}
+        </span>
+      </button>
+    ))}
+  </div>
+);
+
+export default SuggestedLines;
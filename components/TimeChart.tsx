@@ -0,0 +1,97 @@
+import React from 'react';
+import { Clock } from 'lucide-react';
+import { ClockProfile, MoveAnnotation } from '../types';
+import { formatClock, formatDuration, formatTimeControl, sideClockStats } from '../services/clockService';
+import { moveNumberLabel } from '../services/moveTree';
+
+interface TimeChartProps {
+  profile: ClockProfile;
+  fens: string[]; // start position followed by the position after each ply
+  history: string[];
+  annotationsByPly: Map<number, MoveAnnotation>;
+  currentMoveIndex: number;
+  onSelectPly: (ply: number) => void;
+}
+
+const WIDTH = 500;
+const HEIGHT = 90;
+const ERROR_COLORS: Partial<Record<MoveAnnotation['classification'], string>> = { mistake: '#fb923c', blunder: '#f87171' };
+
+/**
+ * Time spent on each move: the side that moves first above the axis, the
+ * other below. Moves in time trouble are amber and analysed mistakes or
+ * blunders get a dot, so hasty errors stand out.
+ */
+const TimeChart: React.FC<TimeChartProps> = ({ profile, fens, history, annotationsByPly, currentMoveIndex, onSelectPly }) => {
+  const step = WIDTH / Math.max(1, history.length);
+  const maxSpent = Math.max(1, ...profile.clocks.map(c => c?.spentSeconds ?? 0));
+  const half = HEIGHT / 2;
+  const firstSide = fens[0].split(' ')[1] === 'b' ? 'Black' : 'White';
+  const secondSide = firstSide === 'White' ? 'Black' : 'White';
+  const [first, second] = [sideClockStats(profile, 0), sideClockStats(profile, 1)];
+
+  return (
+    <div className="mb-4 bg-slate-800/50 border border-slate-700 rounded-xl p-2">
+      <div className="flex items-center justify-between text-[10px] text-slate-500 mb-1 px-1">
+        <span className="flex items-center gap-1">
+          <Clock className="w-3 h-3" /> {profile.timeControl ? formatTimeControl(profile.timeControl) : 'Clock'}
+        </span>
+        <span>
+          {firstSide} {formatDuration(first.averageSeconds)}/move · {secondSide} {formatDuration(second.averageSeconds)}/move
+        </span>
+      </div>
+      <svg viewBox={`0 0 ${WIDTH} ${HEIGHT}`} preserveAspectRatio="none" className="w-full h-20 cursor-pointer">
+        <rect x={0} y={0} width={WIDTH} height={HEIGHT} fill="#0f172a" rx={6} />
+        <line x1={0} y1={half} x2={WIDTH} y2={half} stroke="#475569" />
+        {currentMoveIndex >= 0 && (
+          <rect x={currentMoveIndex * step} y={0} width={step} height={HEIGHT} fill="#818cf8" fillOpacity={0.2} />
+        )}
+        {profile.clocks.map((clock, ply) => {
+          const barHeight = clock?.spentSeconds ? (clock.spentSeconds / maxSpent) * (half - 4) : 0;
+          const up = ply % 2 === 0;
+          const annotation = annotationsByPly.get(ply)?.san === history[ply] ? annotationsByPly.get(ply) : undefined;
+          const errorColor = annotation && ERROR_COLORS[annotation.classification];
+          return (
+            <g key={ply} onClick={() => onSelectPly(ply)}>
+              <rect x={ply * step} y={0} width={step} height={HEIGHT} fill="transparent">
+                <title>
+                  {moveNumberLabel(fens[ply + 1])} {history[ply]}
+                  {clock ? ` — ${clock.spentSeconds !== null ? `${formatDuration(clock.spentSeconds)}, ` : ''}${formatClock(clock.remainingSeconds)} left` : ' — no clock'}
+                  {clock?.timeTrouble ? ' (time trouble)' : ''}
+                  {errorColor ? ` — ${annotation!.classification}` : ''}
+                </title>
+              </rect>
+              {barHeight > 0 && (
+                <rect
+                  x={ply * step + step * 0.15}
+                  y={up ? half - barHeight : half}
+                  width={step * 0.7}
+                  height={barHeight}
+                  fill={clock!.timeTrouble ? '#fbbf24' : up === (firstSide === 'White') ? '#e2e8f0' : '#64748b'}
+                  pointerEvents="none"
+                />
+              )}
+              {errorColor && (
+                <circle
+                  cx={ply * step + step / 2}
+                  cy={up ? half - barHeight - 4 : half + barHeight + 4}
+                  r={3}
+                  fill={errorColor}
+                  stroke="#0f172a"
+                  pointerEvents="none"
+                />
+              )}
+            </g>
+          );
+        })}
+      </svg>
+      {(first.timeTroubleMoves > 0 || second.timeTroubleMoves > 0) && (
+        <p className="text-[10px] text-amber-300/80 mt-1 px-1">
+          In time trouble: {firstSide} {first.timeTroubleMoves} move{first.timeTroubleMoves === 1 ? '' : 's'}, {secondSide} {second.timeTroubleMoves}
+        </p>
+      )}
+    </div>
+  );
+};
+
+export default TimeChart;
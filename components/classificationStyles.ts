@@ -0,0 +1,12 @@
+import { MoveClassification } from '../types';
+
+export const CLASSIFICATION_STYLES: Record<MoveClassification, { symbol: string; label: string; color: string; bg: string }> = {
+  brilliant: { symbol: '!!', label: 'Brilliant', color: 'text-cyan-400', bg: 'bg-cyan-500/10 border-cyan-500/30' },
+  good: { symbol: '!', label: 'Good move', color: 'text-emerald-400', bg: 'bg-emerald-500/10 border-emerald-500/30' },
+  inaccuracy: { symbol: '?!', label: 'Inaccuracy', color: 'text-amber-400', bg: 'bg-amber-500/10 border-amber-500/30' },
+  mistake: { symbol: '?', label: 'Mistake', color: 'text-orange-400', bg: 'bg-orange-500/10 border-orange-500/30' },
+  blunder: { symbol: '??', label: 'Blunder', color: 'text-red-400', bg: 'bg-red-500/10 border-red-500/30' }
+};
+
+// Move-quality NAGs as shown next to SAN ($1-$6).
+export const NAG_SYMBOLS: Record<number, string> = { 1: '!', 2: '?', 3: '!!', 4: '??', 5: '!?', 6: '?!' };
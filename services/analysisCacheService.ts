@@ -0,0 +1,63 @@
+import { FullAnalysis } from "../types";
+
+const CACHE_STORAGE_KEY = 'gm-studio-analysis-cache';
+const MAX_ENTRIES = 50;
+
+interface CacheEntry {
+  key: string;
+  analysis: FullAnalysis;
+  createdAt: number;
+  usedAt: number;
+}
+
+const readEntries = (): CacheEntry[] => {
+  try {
+    const stored = localStorage.getItem(CACHE_STORAGE_KEY);
+    return stored ? JSON.parse(stored) : [];
+  } catch (error) {
+    console.error("Failed to read the analysis cache:", error);
+    return [];
+  }
+};
+
+// Keeps the most recently used entries, dropping more of them while the storage quota is exceeded.
+const writeEntries = (entries: CacheEntry[]) => {
+  let kept = [...entries].sort((a, b) => b.usedAt - a.usedAt).slice(0, MAX_ENTRIES);
+  while (kept.length) {
+    try {
+      localStorage.setItem(CACHE_STORAGE_KEY, JSON.stringify(kept));
+      return;
+    } catch (error) {
+      kept = kept.slice(0, Math.floor(kept.length / 2));
+    }
+  }
+  try {
+    localStorage.removeItem(CACHE_STORAGE_KEY);
+  } catch (error) {
+    console.error("Failed to write the analysis cache:", error);
+  }
+};
+
+export const getCachedAnalysis = (key: string): { analysis: FullAnalysis; createdAt: number } | null => {
+  const entries = readEntries();
+  const entry = entries.find(e => e.key === key);
+  if (!entry) return null;
+  entry.usedAt = Date.now();
+  writeEntries(entries);
+  return { analysis: entry.analysis, createdAt: entry.createdAt };
+};
+
+export const putCachedAnalysis = (key: string, analysis: FullAnalysis) => {
+  const now = Date.now();
+  writeEntries([{ key, analysis, createdAt: now, usedAt: now }, ...readEntries().filter(e => e.key !== key)]);
+};
+
+export const getAnalysisCacheSize = (): number => readEntries().length;
+
+export const clearAnalysisCache = () => {
+  try {
+    localStorage.removeItem(CACHE_STORAGE_KEY);
+  } catch (error) {
+    console.error("Failed to clear the analysis cache:", error);
+  }
+};
@@ -0,0 +1,91 @@
+import { OnlineGameSummary, OnlineGamesOptions, OnlineGamesPage } from "../types";
+import { fetchWithRetry } from "./httpService";
+
+// Overridable so the importer can be exercised against a local mock of the public API.
+const CHESSCOM_URL = (process.env.CHESSCOM_URL || 'https://api.chess.com').replace(/\/$/, '');
+
+export const CHESSCOM_PAGE_SIZE = 20;
+
+interface ChessComPlayer {
+  username: string;
+  rating?: number;
+  result: string; // "win", or how the game ended for this player ("checkmated", "resigned", "agreed", ...)
+}
+
+interface ChessComGame {
+  url: string;
+  uuid?: string;
+  pgn?: string;
+  end_time: number; // seconds
+  rated?: boolean;
+  time_class?: string;
+  rules: string; // "chess", "chess960", ...
+  white: ChessComPlayer;
+  black: ChessComPlayer;
+}
+
+const chessComFetch = async <T>(path: string, signal?: AbortSignal): Promise<T> => {
+  const response = await fetchWithRetry(`${CHESSCOM_URL}${path}`, { headers: { 'Accept': 'application/json' }, signal });
+  if (response.status === 404) throw new Error("Chess.com user not found.");
+  if (response.status === 429) throw new Error("Chess.com rate limit reached. Please wait a minute and try again.");
+  if (!response.ok) throw new Error(`Chess.com request failed (HTTP ${response.status}).`);
+  return response.json();
+};
+
+const toGameSummary = (game: ChessComGame): OnlineGameSummary => {
+  // The loser's (or, for draws, either player's) result says how the game ended.
+  const status = game.white.result === 'win' ? game.black.result : game.white.result;
+  return {
+    source: 'chesscom',
+    id: game.uuid || game.url,
+    white: { name: game.white.username, rating: game.white.rating },
+    black: { name: game.black.username, rating: game.black.rating },
+    createdAt: game.end_time * 1000,
+    status,
+    variant: game.rules === 'chess' ? 'standard' : game.rules,
+    speed: game.time_class,
+    rated: game.rated,
+    pgn: game.pgn
+  };
+};
+
+const newestFirstOrder = (a: OnlineGameSummary, b: OnlineGameSummary) =>
+  b.createdAt - a.createdAt || (a.id < b.id ? -1 : a.id > b.id ? 1 : 0);
+
+/**
+ * Lists a page of a user's games, newest first, walking the monthly archives
+ * backwards until the page is full. Archive listings include each game's PGN
+ * (with %clk comments), so no second request is needed to open one.
+ */
+export const fetchChessComGames = async (
+  username: string,
+  { until = Infinity, untilId, max = CHESSCOM_PAGE_SIZE, signal, onGame }: OnlineGamesOptions = {}
+): Promise<OnlineGamesPage> => {
+  const games: OnlineGameSummary[] = [];
+  // Games ending in the same second are ordered by id, so a page can end between two of them.
+  const isBeforeCursor = (g: OnlineGameSummary) =>
+    g.createdAt < until || (g.createdAt === until && untilId !== undefined && g.id > untilId);
+  try {
+    const user = encodeURIComponent(username.toLowerCase());
+    const { archives } = await chessComFetch<{ archives: string[] }>(`/pub/player/${user}/games/archives`, signal);
+    // Archive URLs end in /YYYY/MM; skip months that start after the cursor (newer than the current page).
+    for (const archiveUrl of [...archives].reverse()) {
+      const [year, month] = archiveUrl.split('/').slice(-2).map(Number);
+      if (Date.UTC(year, month - 1, 1) > until) continue;
+      const { games: monthGames } = await chessComFetch<{ games: ChessComGame[] }>(
+        `/pub/player/${user}/games/${year}/${String(month).padStart(2, '0')}`,
+        signal
+      );
+      const newestFirst = monthGames.map(toGameSummary).filter(isBeforeCursor).sort(newestFirstOrder);
+      for (const game of newestFirst) {
+        games.push(game);
+        onGame?.(game);
+        if (games.length === max) return { games, nextUntil: game.createdAt, nextUntilId: game.id };
+      }
+    }
+  } catch (error) {
+    console.error("Chess.com list fetch error:", error);
+    throw error;
+  }
+  return { games, nextUntil: null };
+};
@@ -0,0 +1,110 @@
+import { ClockProfile, MoveAnnotation, MoveClock, MoveTreeNode, TimeControl } from "../types";
+
+const CLOCK_REGEX = /\[%clk\s+(\d+):(\d{1,2}):(\d{1,2}(?:\.\d+)?)\]/;
+
+// Seconds left on the clock from a comment such as "[%clk 0:02:58.3]", or null without one.
+export const parseClockComment = (comment?: string): number | null => {
+  const match = comment?.match(CLOCK_REGEX);
+  return match ? parseInt(match[1], 10) * 3600 + parseInt(match[2], 10) * 60 + parseFloat(match[3]) : null;
+};
+
+/**
+ * Parses a PGN TimeControl header such as "180+2" or "300". For multi-stage
+ * controls ("40/7200:3600") only the first stage is used. Returns null for
+ * "-", "?" and anything else it cannot read.
+ */
+export const parseTimeControl = (header?: string): TimeControl | null => {
+  const match = header?.trim().match(/^(?:\d+\/)?(\d+)(?:\+(\d+(?:\.\d+)?))?(?::|$)/);
+  if (!match) return null;
+  return { initialSeconds: parseInt(match[1], 10), incrementSeconds: match[2] ? parseFloat(match[2]) : 0 };
+};
+
+export const formatTimeControl = ({ initialSeconds, incrementSeconds }: TimeControl): string =>
+  `${initialSeconds % 60 === 0 ? `${initialSeconds / 60} min` : `${initialSeconds}s`}${incrementSeconds ? ` + ${incrementSeconds}s` : ''}`;
+
+// Clock reading as h:mm:ss or m:ss.
+export const formatClock = (seconds: number): string => {
+  const total = Math.floor(seconds);
+  const h = Math.floor(total / 3600);
+  const m = Math.floor((total % 3600) / 60);
+  const s = String(total % 60).padStart(2, '0');
+  return h ? `${h}:${String(m).padStart(2, '0')}:${s}` : `${m}:${s}`;
+};
+
+// Duration of a move, e.g. "4.2s", "38s" or "2m 05s".
+export const formatDuration = (seconds: number): string => {
+  if (seconds < 10) return `${seconds.toFixed(seconds % 1 ? 1 : 0)}s`;
+  if (seconds < 60) return `${Math.round(seconds)}s`;
+  const total = Math.round(seconds);
+  return `${Math.floor(total / 60)}m ${String(total % 60).padStart(2, '0')}s`;
+};
+
+// Moves started with less than this many seconds left count as played in time trouble: a tenth of the base time, between 10 s and 60 s.
+export const timeTroubleThreshold = (timeControl: TimeControl | null): number =>
+  timeControl ? Math.min(60, Math.max(10, timeControl.initialSeconds / 10)) : 30;
+
+/**
+ * Reads the [%clk] comments of the main line. Time spent on a move is the
+ * side's previous reading (or the base time for its first move) minus the
+ * new one, plus the increment. Returns null when no move has a clock.
+ */
+export const buildClockProfile = (mainLine: MoveTreeNode[], headers: Record<string, string>): ClockProfile | null => {
+  const readings = mainLine.map(node => parseClockComment(node.comment));
+  if (readings.every(r => r === null)) return null;
+  const timeControl = parseTimeControl(headers.TimeControl);
+  const threshold = timeTroubleThreshold(timeControl);
+  const increment = timeControl?.incrementSeconds ?? 0;
+  const clocks = readings.map((remaining, ply): MoveClock | null => {
+    if (remaining === null) return null;
+    const before = ply >= 2 ? readings[ply - 2] : timeControl?.initialSeconds ?? null;
+    return {
+      ply,
+      remainingSeconds: remaining,
+      spentSeconds: before === null ? null : Math.max(0, before - remaining + increment),
+      timeTrouble: (before ?? remaining) < threshold
+    };
+  });
+  return { timeControl, clocks };
+};
+
+export interface SideClockStats {
+  moves: number; // moves with a known time spent
+  averageSeconds: number;
+  longest: MoveClock | null;
+  timeTroubleMoves: number;
+}
+
+// Time usage of the side that played the plies with the given parity (0 for the side making the first move).
+export const sideClockStats = (profile: ClockProfile, parity: 0 | 1): SideClockStats => {
+  const own = profile.clocks.filter((c): c is MoveClock => c !== null && c.ply % 2 === parity);
+  const timed = own.filter(c => c.spentSeconds !== null);
+  const total = timed.reduce((sum, c) => sum + c.spentSeconds!, 0);
+  return {
+    moves: timed.length,
+    averageSeconds: timed.length ? total / timed.length : 0,
+    longest: timed.reduce<MoveClock | null>((best, c) => (!best || c.spentSeconds! > best.spentSeconds! ? c : best), null),
+    timeTroubleMoves: own.filter(c => c.timeTrouble).length
+  };
+};
+
+export interface ErrorTimeUsage {
+  annotation: MoveAnnotation;
+  clock: MoveClock;
+  hasty: boolean; // played in under a third of that side's average time per move
+}
+
+/**
+ * Pairs the mistakes and blunders of an analysis with the clock at the time,
+ * to tell errors made in time trouble or in haste from slow misjudgements.
+ */
+export const errorTimeUsage = (profile: ClockProfile, annotations: MoveAnnotation[]): ErrorTimeUsage[] => {
+  const averages = [sideClockStats(profile, 0).averageSeconds, sideClockStats(profile, 1).averageSeconds];
+  return annotations
+    .filter(a => a.classification === 'mistake' || a.classification === 'blunder')
+    .flatMap(annotation => {
+      const clock = profile.clocks[annotation.ply];
+      if (!clock) return [];
+      const average = averages[annotation.ply % 2];
+      return [{ annotation, clock, hasty: clock.spentSeconds !== null && average > 0 && clock.spentSeconds < average / 3 }];
+    });
+};
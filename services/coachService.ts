@@ -0,0 +1,515 @@
+
+import { DEFAULT_POSITION } from "chess.js";
+import { FullAnalysis, ChatMessage, ClockProfile, EngineEvaluation, AnalysisPhase, GameVariant, PlayerPerspective, PlayerReport, MoveSuggestion } from "../types";
+import { formatEvaluation } from "./engineService";
+import { getLlmProvider } from "./llmService";
+import { getMainLine, moveNumberLabel, parsePgnToTree } from "./moveTree";
+import { classifyOpening } from "./openingService";
+import { getCachedAnalysis, putCachedAnalysis } from "./analysisCacheService";
+import { buildClockProfile, formatClock, formatDuration, formatTimeControl, sideClockStats, timeTroubleThreshold } from "./clockService";
+import { MOVE_CLASSIFICATIONS, chatSuggestionFen, legalSanIn, validateAnalysis, validateSuggestions } from "./coachValidation";
+import { createChess, detectVariant } from "./variantService";
+
+const SYSTEM_INSTRUCTION = `
+You are a world-class Chess Grandmaster and Coach. Your knowledge base includes deep study of classic and modern chess literature, including:
+- "My System" by Aron Nimzowitsch
+- "Zurich International Chess Tournament 1953" by David Bronstein
+- "Dvoretsky's Endgame Manual" by Mark Dvoretsky
+- "The Life and Games of Mikhail Tal" by Mikhail Tal
+- "Bobby Fischer Teaches Chess"
+- "Fundamental Chess Endings" by Karsten Müller
+
+Your task is to analyze chess games and answer questions.
+When analyzing: Evaluate Opening, Middlegame, Tactics, and Endgame, and annotate the notable moves by their ply index.
+When chatting: Provide concise, expert advice. Refer to the current game state (PGN/FEN) and any provided analysis.
+Mention relevant books where applicable.
+When engine evaluations are provided, treat them as the objective truth: never praise a move the engine shows losing significant value, and base move classifications on the evaluation swings.
+`;
+
+const PHASE_SCHEMA = {
+  type: 'object',
+  properties: {
+    score: { type: 'number' },
+    feedback: { type: 'string' },
+    errors: { type: 'array', items: { type: 'string' } }
+  },
+  required: ['score', 'feedback', 'errors']
+};
+
+const ANALYSIS_SCHEMA = {
+  type: 'object',
+  properties: {
+    opening: PHASE_SCHEMA,
+    middlegame: PHASE_SCHEMA,
+    tactics: PHASE_SCHEMA,
+    endgame: PHASE_SCHEMA,
+    overallAdvice: { type: 'string' },
+    referencedBooks: { type: 'array', items: { type: 'string' } },
+    moveAnnotations: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          ply: { type: 'integer' },
+          san: { type: 'string' },
+          classification: { type: 'string', enum: MOVE_CLASSIFICATIONS },
+          comment: { type: 'string' },
+          betterMove: { type: 'string' }
+        },
+        required: ['ply', 'san', 'classification', 'comment']
+      }
+    },
+    suggestions: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          ply: { type: 'integer' },
+          moves: { type: 'array', items: { type: 'string' } },
+          description: { type: 'string' }
+        },
+        required: ['ply', 'moves']
+      }
+    }
+  },
+  required: ['opening', 'middlegame', 'tactics', 'endgame', 'overallAdvice', 'referencedBooks', 'moveAnnotations']
+};
+
+// Lists every move with its 0-based ply so the model can reference moves unambiguously,
+// together with the engine evaluation of the resulting position and the clock when known.
+const buildPlyList = (
+  history: string[],
+  fens: string[],
+  evaluations: Record<string, EngineEvaluation>,
+  clockProfile: ClockProfile | null = null
+): string =>
+  history.map((san, ply) => {
+    const evaluation = evaluations[fens[ply]];
+    const engineNote = evaluation
+      ? ` [eval ${formatEvaluation(evaluation)}, depth ${evaluation.depth}${evaluation.bestLine.length ? `, best reply: ${evaluation.bestLine.slice(0, 4).join(' ')}` : ''}]`
+      : '';
+    const clock = clockProfile?.clocks[ply];
+    const clockNote = clock
+      ? ` [clock ${formatClock(clock.remainingSeconds)} left${clock.spentSeconds !== null ? `, ${formatDuration(clock.spentSeconds)} spent` : ''}${clock.timeTrouble ? ', time trouble' : ''}]`
+      : '';
+    return `${ply}: ${moveNumberLabel(fens[ply])} ${san}${engineNote}${clockNote}`;
+  }).join('\n');
+
+// Names the opening from the bundled ECO book and where the game left known theory.
+const describeOpening = (history: string[], fens: string[], startFen: string = DEFAULT_POSITION): string => {
+  const classification = classifyOpening(fens, startFen);
+  if (!classification?.opening) return '';
+  const { opening, leftTheoryAt } = classification;
+  const exit = leftTheoryAt === null
+    ? 'The game never left known theory.'
+    : `The first move out of book is ply ${leftTheoryAt} (${moveNumberLabel(fens[leftTheoryAt])} ${history[leftTheoryAt]}); base the opening feedback on the actual line up to there.`;
+  return `\nOpening (ECO book): ${opening.eco} ${opening.name}, book line ${opening.moves.join(' ')}. ${exit}\n`;
+};
+
+// Tells the coach which rules apply when the game is not standard chess from the initial position.
+const describeVariant = (variant: GameVariant, startFen: string): string => {
+  if (variant === 'chess960') {
+    return `\nThis is a Chess960 game starting from ${startFen}. Castling follows Chess960 rules (the king ends on the g- or c-file, the rook next to it) and standard opening theory does not apply, so judge the opening on development, king safety and central control.\n`;
+  }
+  return startFen !== DEFAULT_POSITION ? `\nThe game starts from a set-up position, not the initial one: ${startFen}\n` : '';
+};
+
+// Summarises how each side used its clock and asks for time management as its own category.
+const describeTimeProfile = (profile: ClockProfile, history: string[], fens: string[], startFen: string): string => {
+  const firstSide = startFen.split(' ')[1] === 'b' ? 'Black' : 'White';
+  const sides = ([0, 1] as const).map(parity => {
+    const stats = sideClockStats(profile, parity);
+    const name = parity === 0 ? firstSide : firstSide === 'White' ? 'Black' : 'White';
+    const longest = stats.longest
+      ? `, longest think ${formatDuration(stats.longest.spentSeconds!)} on ${moveNumberLabel(fens[stats.longest.ply])} ${history[stats.longest.ply]}`
+      : '';
+    return `- ${name}: ${formatDuration(stats.averageSeconds)} per move on average${longest}, ${stats.timeTroubleMoves} move${stats.timeTroubleMoves === 1 ? '' : 's'} in time trouble.`;
+  });
+  const control = profile.timeControl ? formatTimeControl(profile.timeControl) : 'unknown time control';
+  return `
+Clock data (${control}; time trouble means under ${formatDuration(timeTroubleThreshold(profile.timeControl))} left before moving):
+${sides.join('\n')}
+Rate time management separately in "timeManagement": how each side budgeted its clock, and whether errors came from time trouble, hasty moves or long thinks.
+`;
+};
+
+// Depth and vocabulary of the coaching for a rating, from beginner to master level.
+const COACHING_LEVELS: { below: number; label: string; style: string }[] = [
+  { below: 1200, label: 'a beginner', style: 'Use plain language and explain any chess term you use. Focus on piece safety, simple tactics and basic opening principles, and keep lines to one or two moves.' },
+  { below: 1600, label: 'an improving club player', style: 'Use common chess terms. Focus on tactical patterns, typical plans and converting advantages, with short concrete lines.' },
+  { below: 2000, label: 'a strong club player', style: 'Use standard chess vocabulary. Discuss pawn structures, plans and candidate moves, with concrete variations where they matter.' },
+  { below: 2300, label: 'an expert', style: 'Be concise and concrete. Assume strong fundamentals and discuss deeper positional ideas, prophylaxis and precise variations.' },
+  { below: Infinity, label: 'a master', style: 'Write as for a titled player: precise variations, subtle positional nuances and critical alternatives, no basic explanations.' }
+];
+
+const coachingLevel = (rating?: number) => (rating ? COACHING_LEVELS.find(level => rating < level.below)! : null);
+
+// Tells the coach whose decisions to judge and how to pitch the explanations.
+const describePerspective = ({ color, rating }: PlayerPerspective): string => {
+  const side = color === 'white' ? 'White' : 'Black';
+  const level = coachingLevel(rating);
+  return `
+The user played ${side}${rating ? ` (rated ${rating})` : ''}. Focus the feedback, scores and annotations on ${side}'s decisions; discuss the opponent's moves only where they explain ${side}'s mistakes or missed chances.${level ? `
+Coach them as ${level.label}: ${level.style}` : ''}
+`;
+};
+
+// Bump whenever the analysis prompt or schema changes, so cached results from the old one are not reused.
+const ANALYSIS_PROMPT_VERSION = 5;
+
+// Identical requests running at the same time share one model call.
+const pendingAnalyses = new Map<string, Promise<FullAnalysis>>();
+
+// Parses and validates a response; returns the problem instead of throwing so it can be sent back for repair.
+const parseAnalysis = (responseText: string, history: string[], fens: string[], startFen: string): FullAnalysis | string => {
+  try {
+    return validateAnalysis(JSON.parse(responseText), { history, fens: [startFen, ...fens] });
+  } catch (error: any) {
+    return error instanceof SyntaxError ? `The response is not valid JSON (${error.message}).` : error.message;
+  }
+};
+
+const requestAnalysis = async (
+  pgn: string,
+  history: string[],
+  fens: string[],
+  startFen: string,
+  evaluations: Record<string, EngineEvaluation>,
+  clockProfile: ClockProfile | null,
+  perspective: PlayerPerspective | null,
+  variant: GameVariant
+): Promise<FullAnalysis> => {
+  const engineName = Object.values(evaluations)[0]?.engine;
+  // Time management is only asked for, and then required, when the game has clock data.
+  const schema = clockProfile
+    ? {
+      ...ANALYSIS_SCHEMA,
+      properties: { ...ANALYSIS_SCHEMA.properties, timeManagement: PHASE_SCHEMA },
+      required: [...ANALYSIS_SCHEMA.required, 'timeManagement']
+    }
+    : ANALYSIS_SCHEMA;
+  const prompt = `Please analyze this chess game: ${pgn}
+${describeVariant(variant, startFen)}${variant === 'chess960' ? '' : describeOpening(history, fens, startFen)}${perspective ? describePerspective(perspective) : ''}${clockProfile ? describeTimeProfile(clockProfile, history, fens, startFen) : ''}
+Moves by ply index (use these indexes in moveAnnotations)${engineName ? `, with ${engineName} evaluations from White's point of view` : ''}${clockProfile ? ' and the clock after each move' : ''}:
+${buildPlyList(history, fens, evaluations, clockProfile)}
+${history.length ? '' : '\nNo moves have been played yet: assess the start position itself (the plans for both sides and the critical continuations) and leave moveAnnotations empty.\n'}
+In suggestions, give the key improving lines as SAN moves; "ply" is the index of the move the line replaces (${history.length} for a continuation after the last move).`;
+  const provider = getLlmProvider();
+  const responseText = await provider.generateJson({ systemInstruction: SYSTEM_INSTRUCTION, prompt, schema });
+  const first = parseAnalysis(responseText, history, fens, startFen);
+  if (typeof first !== 'string') return first;
+
+  // One repair round: show the model its answer and what was wrong with it.
+  console.error("Analysis response rejected, asking for a repair:", first);
+  const repairedText = await provider.generateJson({
+    systemInstruction: SYSTEM_INSTRUCTION,
+    prompt: `${prompt}
+
+Your previous answer could not be used: ${first}
+Previous answer:
+${responseText.slice(0, 20000)}
+
+Return the complete corrected analysis as JSON matching the schema, with scores from 0 to 100.`,
+    schema
+  });
+  const repaired = parseAnalysis(repairedText, history, fens, startFen);
+  if (typeof repaired !== 'string') return repaired;
+  console.error("Failed to parse AI response:", repaired);
+  throw new Error("Invalid analysis format received from AI.");
+};
+
+export interface AnalyzeGameOptions {
+  refresh?: boolean; // skip the cache and ask the model again
+  perspective?: PlayerPerspective | null; // analyse from this player's side, unset for a neutral analysis
+}
+
+export interface AnalysisResult {
+  analysis: FullAnalysis;
+  cachedAt: number | null; // when the cached result was created, null for a fresh one
+}
+
+/**
+ * Analyzes a game, reusing a cached result for the same moves, player
+ * perspective, provider, model and prompt version unless `refresh` is set.
+ */
+export const analyzeGame = async (
+  pgn: string,
+  evaluations: Record<string, EngineEvaluation> = {},
+  { refresh = false, perspective = null }: AnalyzeGameOptions = {}
+): Promise<AnalysisResult> => {
+  const tree = parsePgnToTree(pgn);
+  const mainLine = getMainLine(tree);
+  const history = mainLine.map(node => node.san);
+  const fens = mainLine.map(node => node.fen);
+  const startFen = tree.root.fen;
+  const variant = detectVariant(tree.headers);
+  const clockProfile = buildClockProfile(mainLine, tree.headers);
+
+  const provider = getLlmProvider();
+  const clockKey = clockProfile ? clockProfile.clocks.map(c => c?.remainingSeconds ?? '').join(',') : '';
+  const perspectiveKey = perspective ? `${perspective.color}:${coachingLevel(perspective.rating)?.label || ''}` : '';
+  const cacheKey = [provider.id, provider.model, `v${ANALYSIS_PROMPT_VERSION}`, variant, startFen, history.join(' '), clockKey, perspectiveKey].join('|');
+  const cached = refresh ? null : getCachedAnalysis(cacheKey);
+  if (cached) return { analysis: cached.analysis, cachedAt: cached.createdAt };
+
+  let pending = pendingAnalyses.get(cacheKey);
+  if (!pending) {
+    pending = requestAnalysis(pgn, history, fens, startFen, evaluations, clockProfile, perspective, variant)
+      .then(analysis => {
+        putCachedAnalysis(cacheKey, analysis);
+        return analysis;
+      })
+      .finally(() => pendingAnalyses.delete(cacheKey));
+    pendingAnalyses.set(cacheKey, pending);
+  }
+  return { analysis: await pending, cachedAt: null };
+};
+
+const TRAINING_PLAN_SCHEMA = {
+  type: 'object',
+  properties: {
+    tacticalMisses: { type: 'array', items: { type: 'string' } },
+    trainingPlan: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          focus: { type: 'string' },
+          reason: { type: 'string' },
+          exercises: { type: 'array', items: { type: 'string' } }
+        },
+        required: ['focus', 'reason', 'exercises']
+      }
+    }
+  },
+  required: ['tacticalMisses', 'trainingPlan']
+};
+
+/**
+ * Turns a player's aggregated statistics and error notes into recurring
+ * tactical themes and a training plan, most important item first.
+ */
+export const generateTrainingPlan = async (
+  profileSummary: string
+): Promise<Pick<PlayerReport, 'tacticalMisses' | 'trainingPlan'>> => {
+  const responseText = await getLlmProvider().generateJson({
+    systemInstruction: SYSTEM_INSTRUCTION,
+    prompt: `You analyzed many games of one player. From the profile below:
+- list the tactical themes they miss most often (most frequent first) in tacticalMisses;
+- write a training plan of 3 to 5 items ordered by priority, each with the focus area, why it matters for this player, and concrete exercises or books.
+
+${profileSummary}`,
+    schema: TRAINING_PLAN_SCHEMA
+  });
+
+  try {
+    const plan = JSON.parse(responseText);
+    return { tacticalMisses: plan.tacticalMisses || [], trainingPlan: plan.trainingPlan || [] };
+  } catch (error) {
+    console.error("Failed to parse AI response:", error);
+    throw new Error("Invalid training plan format received from AI.");
+  }
+};
+
+const PLAY_MOVE_SCHEMA = {
+  type: 'object',
+  properties: { move: { type: 'string' } },
+  required: ['move']
+};
+
+const MAX_PLAY_MOVE_ATTEMPTS = 3;
+
+/**
+ * Asks the coach for its move in a play-out game, for when no engine is
+ * available. Each answer is checked for legality and, if illegal, sent back
+ * with the reason; throws after MAX_PLAY_MOVE_ATTEMPTS illegal answers.
+ */
+export const chooseCoachMove = async (fen: string, strengthLabel: string, playedMoves: string[] = []): Promise<string> => {
+  const side = fen.split(' ')[1] === 'b' ? 'Black' : 'White';
+  const prompt = `We are playing a training game from this position (FEN): ${fen}
+${playedMoves.length ? `Moves played since the start position: ${playedMoves.join(' ')}\n` : ''}You play ${side} at ${strengthLabel.toLowerCase()} strength. Choose your next move.
+Legal moves: ${createChess(fen).moves().join(' ')}
+Answer with the move in SAN as "move".`;
+
+  let feedback = '';
+  for (let attempt = 0; attempt < MAX_PLAY_MOVE_ATTEMPTS; attempt++) {
+    const responseText = await getLlmProvider().generateJson({
+      systemInstruction: SYSTEM_INSTRUCTION,
+      prompt: `${prompt}${feedback}`,
+      schema: PLAY_MOVE_SCHEMA
+    });
+    let move = '';
+    try {
+      move = String(JSON.parse(responseText).move ?? '');
+    } catch (error) {
+      // Handled like an illegal move below.
+    }
+    const san = legalSanIn(fen, move);
+    if (san) return san;
+    feedback = `\n\nYour previous answer "${(move || responseText).slice(0, 80)}" is not a legal move in this position. Pick one of the legal moves listed above.`;
+  }
+  console.error("No legal move from the coach for position:", fen);
+  throw new Error("The coach could not come up with a legal move.");
+};
+
+const HISTORY_TOKEN_BUDGET = 3000;
+const SUMMARY_TOKEN_BUDGET = 500;
+const SUMMARY_SNIPPET_LENGTH = 160;
+
+// Rough token estimate (about 4 characters per token for English text).
+const estimateTokens = (text: string) => Math.ceil(text.length / 4);
+
+const snippet = (text: string) =>
+  text.length > SUMMARY_SNIPPET_LENGTH ? `${text.slice(0, SUMMARY_SNIPPET_LENGTH).trim()}…` : text;
+
+/**
+ * Keeps the most recent messages that fit the token budget and condenses
+ * the older ones into a short summary for the system instruction.
+ */
+export const budgetChatHistory = (
+  messages: ChatMessage[],
+  budget = HISTORY_TOKEN_BUDGET
+): { recent: ChatMessage[]; summary: string } => {
+  let used = 0;
+  let cut = messages.length;
+  while (cut > 0 && used + estimateTokens(messages[cut - 1].content) <= budget) {
+    used += estimateTokens(messages[cut - 1].content);
+    cut--;
+  }
+  // Never start the kept history with an assistant turn.
+  while (cut < messages.length && messages[cut].role !== 'user') cut++;
+
+  const summaryLines: string[] = [];
+  let summaryTokens = 0;
+  for (let i = cut - 1; i >= 0; i--) {
+    const line = `${messages[i].role === 'user' ? 'Student' : 'Coach'}: ${snippet(messages[i].content)}`;
+    summaryTokens += estimateTokens(line);
+    if (summaryTokens > SUMMARY_TOKEN_BUDGET) break;
+    summaryLines.unshift(line);
+  }
+  return { recent: messages.slice(cut), summary: summaryLines.join('\n') };
+};
+
+export interface ChatContext {
+  pgn: string;
+  startFen: string;
+  currentFen: string;
+  currentPly: number; // -1 at the start position
+  lastMove?: string; // SAN of the move that led to the current position
+  analysis?: FullAnalysis;
+  perspective?: PlayerPerspective | null;
+  variant?: GameVariant;
+}
+
+const describePhase = (title: string, phase: AnalysisPhase) =>
+  `${title} (${phase.score}/100): ${phase.feedback}${phase.errors.length ? ` Errors: ${phase.errors.join('; ')}` : ''}`;
+
+const buildChatContext = ({ pgn, startFen, currentFen, currentPly, lastMove, analysis, perspective, variant }: ChatContext): string => {
+  const position = currentPly < 0
+    ? 'Start position'
+    : `Ply ${currentPly}, after ${moveNumberLabel(currentFen)} ${lastMove}`;
+  const lines = [
+    ...(variant === 'chess960' ? ['Variant: Chess960 (Chess960 castling rules; standard opening theory does not apply)'] : []),
+    ...(startFen !== DEFAULT_POSITION ? [`Set-up start position FEN: ${startFen}`] : []),
+    `Current Game PGN: ${pgn}`,
+    `Current Position FEN: ${currentFen}`,
+    `Current Position: ${position}`
+  ];
+  if (perspective) lines.push(describePerspective(perspective).trim());
+  if (analysis) {
+    lines.push(
+      'Your earlier analysis of this game:',
+      describePhase('Opening', analysis.opening),
+      describePhase('Middlegame', analysis.middlegame),
+      describePhase('Tactics', analysis.tactics),
+      describePhase('Endgame', analysis.endgame),
+      `Overall advice: ${analysis.overallAdvice}`,
+      ...analysis.moveAnnotations.map(a =>
+        `Ply ${a.ply} ${a.san} (${a.classification}): ${a.comment}${a.betterMove ? ` Better: ${a.betterMove}.` : ''}`
+      )
+    );
+  }
+  return lines.join('\n');
+};
+
+const SUGGESTIONS_OPEN = '<moves>';
+const SUGGESTIONS_CLOSE = '</moves>';
+
+const CHAT_SUGGESTION_INSTRUCTION = `
+When you recommend concrete moves or lines, end your reply with a block ${SUGGESTIONS_OPEN}[{"fen": "<FEN the line starts from>", "moves": ["<SAN>", ...], "description": "<short label>"}]${SUGGESTIONS_CLOSE}. Lines usually start from the current position. Leave the block out when you recommend no moves.
+`;
+
+/**
+ * Separates the machine-readable suggestion block from a chat reply. While
+ * streaming, a tag that has only partly arrived is hidden as well.
+ */
+export const splitChatReply = (reply: string): { text: string; block: string | null } => {
+  const start = reply.indexOf(SUGGESTIONS_OPEN);
+  if (start >= 0) {
+    const end = reply.indexOf(SUGGESTIONS_CLOSE, start);
+    return { text: reply.slice(0, start).trimEnd(), block: end >= 0 ? reply.slice(start + SUGGESTIONS_OPEN.length, end) : null };
+  }
+  for (let n = SUGGESTIONS_OPEN.length - 1; n > 0; n--) {
+    if (reply.endsWith(SUGGESTIONS_OPEN.slice(0, n))) return { text: reply.slice(0, -n), block: null };
+  }
+  return { text: reply, block: null };
+};
+
+const parseChatSuggestions = (block: string | null, currentFen: string): MoveSuggestion[] => {
+  if (!block) return [];
+  try {
+    return validateSuggestions(JSON.parse(block), chatSuggestionFen(currentFen));
+  } catch (error) {
+    console.error("Ignoring malformed move suggestions:", error);
+    return [];
+  }
+};
+
+export interface ChatStreamOptions {
+  onChunk?: (partialReply: string) => void; // called with the visible reply so far
+  signal?: AbortSignal;
+}
+
+export interface ChatReply {
+  text: string;
+  suggestions: MoveSuggestion[];
+}
+
+/**
+ * Streams the coach's reply. Resolves with the full text, or with the partial
+ * text if the request is aborted; errors mid-stream are rethrown. Suggested
+ * lines are returned separately, checked for legality.
+ */
+export const chatWithAssistant = async (
+  query: string,
+  context: ChatContext,
+  previousMessages: ChatMessage[],
+  { onChunk, signal }: ChatStreamOptions = {}
+): Promise<ChatReply> => {
+  const { recent, summary } = budgetChatHistory(previousMessages);
+  const systemInstruction = `${SYSTEM_INSTRUCTION}${CHAT_SUGGESTION_INSTRUCTION}
+Context:
+${buildChatContext(context)}${summary ? `\n\nSummary of earlier conversation:\n${summary}` : ''}`;
+
+  let reply = '';
+  const finish = (): ChatReply => {
+    const { text, block } = splitChatReply(reply);
+    return { text, suggestions: parseChatSuggestions(block, context.currentFen) };
+  };
+  try {
+    const stream = getLlmProvider().streamChat({
+      systemInstruction,
+      messages: [...recent.map(({ role, content }) => ({ role, content })), { role: 'user', content: query }],
+      signal
+    });
+    for await (const chunk of stream) {
+      reply += chunk;
+      onChunk?.(splitChatReply(reply).text);
+    }
+  } catch (error) {
+    if (signal?.aborted) return finish();
+    throw error;
+  }
+  if (signal?.aborted) return finish();
+  return reply ? finish() : { text: "I apologize, I couldn't formulate a response.", suggestions: [] };
+};
@@ -0,0 +1,201 @@
+import { validateFen } from "chess.js";
+import { AnalysisPhase, FullAnalysis, MoveAnnotation, MoveClassification, MoveReference, MoveSuggestion } from "../types";
+import { applyMove, moveNumberLabel, replayLine } from "./moveTree";
+import { toChessJsFen } from "./variantService";
+
+export const MOVE_CLASSIFICATIONS: MoveClassification[] = ['brilliant', 'good', 'inaccuracy', 'mistake', 'blunder'];
+
+const PHASES = ['opening', 'middlegame', 'tactics', 'endgame'] as const;
+
+// The main line a coach response is checked against.
+export interface GameLine {
+  fens: string[]; // start position followed by the position after each ply
+  history: string[]; // SAN of each ply
+}
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const toText = (value: unknown): string => (typeof value === 'string' ? value.trim() : '');
+
+const toTextList = (value: unknown): string[] =>
+  Array.isArray(value) ? value.map(toText).filter(Boolean) : [];
+
+const stripSanSuffix = (san: string) => san.replace(/[+#!?]+$/, '');
+
+// Normalises a move to SAN in the given position; null when it is not legal there.
+export const legalSanIn = (fen: string, move: string | undefined): string | null => {
+  if (!move) return null;
+  return applyMove(fen, stripSanSuffix(move.replace(/^\d+\s*(?:\.+|…)\s*/, '')))?.san ?? null;
+};
+
+const validatePhase = (value: unknown, name: string, problems: string[]): AnalysisPhase => {
+  if (!isObject(value)) {
+    problems.push(`"${name}" must be an object with score, feedback and errors.`);
+    return { score: 0, feedback: '', errors: [] };
+  }
+  const score = typeof value.score === 'number' ? value.score : parseFloat(String(value.score));
+  if (!Number.isFinite(score)) problems.push(`"${name}.score" must be a number from 0 to 100.`);
+  return {
+    score: Number.isFinite(score) ? Math.round(Math.min(100, Math.max(0, score))) : 0,
+    feedback: toText(value.feedback),
+    errors: toTextList(value.errors)
+  };
+};
+
+// Keeps annotations that point inside the game, re-syncs their SAN with the move actually played and drops illegal better moves.
+const validateAnnotations = (value: unknown, line: GameLine): MoveAnnotation[] => {
+  const seen = new Set<number>();
+  return (Array.isArray(value) ? value : [])
+    .filter(isObject)
+    .filter(a => Number.isInteger(a.ply) && (a.ply as number) >= 0 && (a.ply as number) < line.history.length)
+    .filter(a => MOVE_CLASSIFICATIONS.includes(a.classification as MoveClassification))
+    .filter(a => !seen.has(a.ply as number) && seen.add(a.ply as number))
+    .map(a => {
+      const ply = a.ply as number;
+      const betterMove = legalSanIn(line.fens[ply], toText(a.betterMove)) || undefined;
+      return {
+        ply,
+        san: line.history[ply],
+        classification: a.classification as MoveClassification,
+        comment: toText(a.comment),
+        ...(betterMove && betterMove !== line.history[ply] ? { betterMove } : {})
+      };
+    })
+    .sort((a, b) => a.ply - b.ply);
+};
+
+/**
+ * Keeps the legal prefix of each suggested line. `fenOf` resolves where a
+ * raw suggestion starts; suggestions without a start or a legal first move
+ * are dropped.
+ */
+export const validateSuggestions = (
+  value: unknown,
+  fenOf: (raw: Record<string, unknown>) => string | null
+): MoveSuggestion[] =>
+  (Array.isArray(value) ? value : []).filter(isObject).flatMap(raw => {
+    const fen = fenOf(raw);
+    const moves = fen ? replayLine(fen, toTextList(raw.moves)).map(m => m.san) : [];
+    if (!fen || !moves.length) return [];
+    const description = toText(raw.description);
+    return [{ fen, moves, ...(description ? { description } : {}) }];
+  });
+
+// Start position of a chat suggestion: its own FEN when valid, else the position being discussed.
+export const chatSuggestionFen = (currentFen: string) => (raw: Record<string, unknown>): string =>
+  typeof raw.fen === 'string' && validateFen(toChessJsFen(raw.fen)).ok ? raw.fen : currentFen;
+
+/**
+ * Checks a parsed analysis response against the expected shape. Scores are
+ * clamped to 0-100, missing lists default to empty and bad annotations are
+ * dropped. Throws, listing the problems, when a required part is missing or
+ * unusable, so the caller can ask the model to repair its answer.
+ */
+export const validateAnalysis = (raw: unknown, line: GameLine): FullAnalysis => {
+  if (!isObject(raw)) throw new Error("The analysis must be a JSON object.");
+  const problems: string[] = [];
+  const [opening, middlegame, tactics, endgame] = PHASES.map(name => validatePhase(raw[name], name, problems));
+  const overallAdvice = toText(raw.overallAdvice);
+  if (!overallAdvice) problems.push('"overallAdvice" must be a non-empty string.');
+  const timeManagement = raw.timeManagement === undefined ? undefined : validatePhase(raw.timeManagement, 'timeManagement', problems);
+  if (problems.length) throw new Error(problems.join(' '));
+  return {
+    opening,
+    middlegame,
+    tactics,
+    endgame,
+    overallAdvice,
+    referencedBooks: toTextList(raw.referencedBooks),
+    moveAnnotations: validateAnnotations(raw.moveAnnotations, line),
+    suggestions: validateSuggestions(raw.suggestions, s =>
+      Number.isInteger(s.ply) && (s.ply as number) >= 0 && (s.ply as number) < line.fens.length ? line.fens[s.ply as number] : null
+    ),
+    ...(timeManagement ? { timeManagement } : {})
+  };
+};
+
+const SAN_PATTERN = String.raw`(?:O-O-O|O-O|[KQRBN][a-h]?[1-8]?x?[a-h][1-8]|[a-h](?:x[a-h])?[1-8](?:=?[QRBN])?)[+#]?`;
+// "12. Nf3", "12...Nxe4", "12… Nxe4", or a pair such as "12. e4 e5".
+const MOVE_REFERENCE_REGEX = new RegExp(String.raw`\b(\d{1,3})\s*(\.\.\.|…|\.)\s*(${SAN_PATTERN})(?:\s+(${SAN_PATTERN}))?(?![\w=])`, 'g');
+
+// Ply of a numbered move in a game that starts from `startFen`.
+const plyOf = (startFen: string, moveNumber: number, black: boolean) => {
+  const [, turn, , , , fullmove = '1'] = startFen.split(' ');
+  return (moveNumber - parseInt(fullmove, 10)) * 2 + (black ? 1 : 0) - (turn === 'b' ? 1 : 0);
+};
+
+const checkReference = (line: GameLine, text: string, index: number, ply: number, san: string): MoveReference => {
+  const played = stripSanSuffix(san);
+  if (line.history[ply] !== undefined && stripSanSuffix(line.history[ply]) === played) {
+    return { text, index, ply, san: line.history[ply], status: 'played' };
+  }
+  const legal = ply >= 0 && ply < line.fens.length ? legalSanIn(line.fens[ply], played) : null;
+  if (legal) return { text, index, ply, san: legal, status: 'alternative' };
+  // The coach often cites a real move under the wrong number; point at the nearest ply where it was played.
+  const nearest = line.history
+    .map((move, p) => (stripSanSuffix(move) === played ? p : -1))
+    .filter(p => p >= 0)
+    .sort((a, b) => Math.abs(a - ply) - Math.abs(b - ply))[0];
+  if (nearest === undefined) return { text, index, ply, san, status: 'illegal' };
+  return {
+    text,
+    index,
+    ply: nearest,
+    san: line.history[nearest],
+    status: 'misnumbered',
+    correction: `${moveNumberLabel(line.fens[nearest + 1])} ${line.history[nearest]}`
+  };
+};
+
+/**
+ * Finds numbered move references such as "12...Nxe4" in coach text and
+ * checks each against the game: played as written, played under another
+ * move number, a legal move that was not played, or not legal at all.
+ */
+export const findMoveReferences = (text: string, line: GameLine): MoveReference[] => {
+  const references: MoveReference[] = [];
+  const startFen = line.fens[0];
+  for (const match of text.matchAll(MOVE_REFERENCE_REGEX)) {
+    const [whole, number, dots, first, second] = match;
+    const black = dots !== '.';
+    const ply = plyOf(startFen, parseInt(number, 10), black);
+    // A trailing second move belongs to Black only after a White move ("12. e4 e5").
+    const firstText = second && !black ? whole.slice(0, whole.lastIndexOf(second)).trimEnd() : whole;
+    references.push(checkReference(line, firstText, match.index!, ply, first));
+    if (second && !black) {
+      references.push(checkReference(line, second, match.index! + whole.lastIndexOf(second), ply + 1, second));
+    }
+  }
+  return references;
+};
+
+// A bare SAN token in coach text that can be previewed on the board.
+export interface SuggestedMoveToken {
+  text: string;
+  index: number;
+  suggestion: MoveSuggestion; // line to preview, ending with this move
+}
+
+const SAN_TOKEN_REGEX = new RegExp(String.raw`(?<![\w.…])(${SAN_PATTERN})(?![\w=])`, 'g');
+
+/**
+ * Finds SAN tokens such as "Nf5" that are not part of a numbered reference.
+ * A token that appears in one of the reply's suggested lines previews that
+ * line up to it; otherwise a move legal in `fen` previews just that move.
+ */
+export const findSuggestedMoves = (text: string, suggestions: MoveSuggestion[], fen: string): SuggestedMoveToken[] => {
+  const tokens: SuggestedMoveToken[] = [];
+  for (const match of text.matchAll(SAN_TOKEN_REGEX)) {
+    const san = stripSanSuffix(match[1]);
+    const owner = suggestions.find(s => s.moves.some(m => stripSanSuffix(m) === san));
+    if (owner) {
+      const upto = owner.moves.findIndex(m => stripSanSuffix(m) === san);
+      tokens.push({ text: match[1], index: match.index!, suggestion: { ...owner, moves: owner.moves.slice(0, upto + 1) } });
+      continue;
+    }
+    const legal = legalSanIn(fen, san);
+    if (legal) tokens.push({ text: match[1], index: match.index!, suggestion: { fen, moves: [legal] } });
+  }
+  return tokens;
+};
@@ -0,0 +1,59 @@
+import { ChessEngine, EngineEvaluation, EngineSearchOptions } from "../../types";
+import { BUILTIN_ENGINE_NAME, searchPosition } from "./builtinSearch";
+
+type Pending = { resolve: (ev: EngineEvaluation) => void; reject: (err: Error) => void };
+
+/**
+ * The built-in TypeScript search. Runs in a module Web Worker when the
+ * environment allows it, otherwise searches on the main thread.
+ */
+export const createBuiltinEngine = (): ChessEngine => {
+  let worker: Worker | null = null;
+  try {
+    worker = new Worker(new URL('./builtinSearch.worker.ts', import.meta.url), { type: 'module' });
+  } catch (error) {
+    console.warn("Engine worker unavailable, searching on the main thread:", error);
+  }
+
+  const pending = new Map<number, Pending>();
+  let nextId = 0;
+
+  if (worker) {
+    worker.onmessage = (event: MessageEvent<{ id: number; result?: EngineEvaluation; error?: string }>) => {
+      const { id, result, error } = event.data;
+      const request = pending.get(id);
+      if (!request) return;
+      pending.delete(id);
+      if (result) request.resolve(result);
+      else request.reject(new Error(error || 'Search failed.'));
+    };
+  }
+
+  return {
+    name: BUILTIN_ENGINE_NAME,
+    evaluate: (fen: string, options?: EngineSearchOptions) => {
+      if (!worker) {
+        return new Promise((resolve, reject) => {
+          // Yield first so a long batch doesn't freeze the UI between positions.
+          setTimeout(() => {
+            try {
+              resolve(searchPosition(fen, options));
+            } catch (error: any) {
+              reject(error);
+            }
+          }, 0);
+        });
+      }
+      const id = nextId++;
+      return new Promise((resolve, reject) => {
+        pending.set(id, { resolve, reject });
+        worker!.postMessage({ id, fen, options });
+      });
+    },
+    dispose: () => {
+      worker?.terminate();
+      pending.forEach(p => p.reject(new Error('Engine disposed.')));
+      pending.clear();
+    }
+  };
+};
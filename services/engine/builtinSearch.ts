@@ -0,0 +1,176 @@
+import { Chess, PieceSymbol } from "chess.js";
+import { EngineEvaluation, EngineSearchOptions } from "../../types";
+import { createChess } from "../variantService";
+
+export const BUILTIN_ENGINE_NAME = 'GM Studio alpha-beta';
+
+const PIECE_VALUES: Record<PieceSymbol, number> = { p: 100, n: 320, b: 330, r: 500, q: 900, k: 0 };
+
+// Piece-square tables from White's point of view, a8 first (same layout as `Chess.board()`).
+const PST: Partial<Record<PieceSymbol, number[]>> = {
+  p: [
+     0,  0,  0,  0,  0,  0,  0,  0,
+    50, 50, 50, 50, 50, 50, 50, 50,
+    10, 10, 20, 30, 30, 20, 10, 10,
+     5,  5, 10, 25, 25, 10,  5,  5,
+     0,  0,  0, 20, 20,  0,  0,  0,
+     5, -5,-10,  0,  0,-10, -5,  5,
+     5, 10, 10,-20,-20, 10, 10,  5,
+     0,  0,  0,  0,  0,  0,  0,  0
+  ],
+  n: [
+    -50,-40,-30,-30,-30,-30,-40,-50,
+    -40,-20,  0,  0,  0,  0,-20,-40,
+    -30,  0, 10, 15, 15, 10,  0,-30,
+    -30,  5, 15, 20, 20, 15,  5,-30,
+    -30,  0, 15, 20, 20, 15,  0,-30,
+    -30,  5, 10, 15, 15, 10,  5,-30,
+    -40,-20,  0,  5,  5,  0,-20,-40,
+    -50,-40,-30,-30,-30,-30,-40,-50
+  ],
+  b: [
+    -20,-10,-10,-10,-10,-10,-10,-20,
+    -10,  0,  0,  0,  0,  0,  0,-10,
+    -10,  0,  5, 10, 10,  5,  0,-10,
+    -10,  5,  5, 10, 10,  5,  5,-10,
+    -10,  0, 10, 10, 10, 10,  0,-10,
+    -10, 10, 10, 10, 10, 10, 10,-10,
+    -10,  5,  0,  0,  0,  0,  5,-10,
+    -20,-10,-10,-10,-10,-10,-10,-20
+  ],
+  r: [
+     0,  0,  0,  0,  0,  0,  0,  0,
+     5, 10, 10, 10, 10, 10, 10,  5,
+    -5,  0,  0,  0,  0,  0,  0, -5,
+    -5,  0,  0,  0,  0,  0,  0, -5,
+    -5,  0,  0,  0,  0,  0,  0, -5,
+    -5,  0,  0,  0,  0,  0,  0, -5,
+    -5,  0,  0,  0,  0,  0,  0, -5,
+     0,  0,  0,  5,  5,  0,  0,  0
+  ],
+  k: [
+    -30,-40,-40,-50,-50,-40,-40,-30,
+    -30,-40,-40,-50,-50,-40,-40,-30,
+    -30,-40,-40,-50,-50,-40,-40,-30,
+    -30,-40,-40,-50,-50,-40,-40,-30,
+    -20,-30,-30,-40,-40,-30,-30,-20,
+    -10,-20,-20,-20,-20,-20,-20,-10,
+     20, 20,  0,  0,  0,  0, 20, 20,
+     20, 30, 10,  0,  0, 10, 30, 20
+  ]
+};
+
+const MATE_SCORE = 100000;
+const MATE_THRESHOLD = MATE_SCORE - 1000;
+const MAX_QUIESCENCE_PLY = 4;
+
+class SearchTimeout extends Error {}
+
+// Static evaluation in centipawns from the side to move's point of view.
+const evaluateBoard = (chess: Chess): number => {
+  let score = 0;
+  chess.board().forEach((row, rowIdx) => row.forEach((piece, colIdx) => {
+    if (!piece) return;
+    const tableIdx = piece.color === 'w' ? rowIdx * 8 + colIdx : (7 - rowIdx) * 8 + colIdx;
+    const value = PIECE_VALUES[piece.type] + (PST[piece.type]?.[tableIdx] ?? 0);
+    score += piece.color === 'w' ? value : -value;
+  }));
+  return chess.turn() === 'w' ? score : -score;
+};
+
+// Cheap ordering from the SAN string alone: promotions, captures and checks first.
+const orderMoves = (moves: string[], pvMove?: string): string[] => {
+  const weight = (san: string) => {
+    if (san === pvMove) return 100;
+    let w = 0;
+    if (san.includes('=')) w += 8;
+    if (san.includes('x')) w += 4 + (san[0] >= 'a' && san[0] <= 'h' ? 2 : 0);
+    if (san.includes('+') || san.includes('#')) w += 1;
+    return w;
+  };
+  return [...moves].sort((a, b) => weight(b) - weight(a));
+};
+
+/**
+ * Iterative-deepening negamax with alpha-beta pruning and a captures-only
+ * quiescence search. Slow compared to a real engine (chess.js move generation),
+ * but dependency-free and good enough to sanity-check the coach at low depth.
+ */
+export const searchPosition = (fen: string, options: EngineSearchOptions = {}): EngineEvaluation => {
+  const maxDepth = options.depth ?? 3;
+  const deadline = Date.now() + (options.timeLimitMs ?? 1500);
+  const chess = createChess(fen);
+  let nodes = 0;
+  let previousPv: string[] = [];
+
+  const checkTime = () => {
+    if (++nodes % 256 === 0 && Date.now() > deadline) throw new SearchTimeout();
+  };
+
+  const quiescence = (alpha: number, beta: number, qPly: number): number => {
+    checkTime();
+    const standPat = evaluateBoard(chess);
+    if (standPat >= beta) return beta;
+    if (standPat > alpha) alpha = standPat;
+    if (qPly >= MAX_QUIESCENCE_PLY) return alpha;
+    const captures = orderMoves(chess.moves().filter(m => m.includes('x') || m.includes('=')));
+    for (const san of captures) {
+      chess.move(san);
+      const score = -quiescence(-beta, -alpha, qPly + 1);
+      chess.undo();
+      if (score >= beta) return beta;
+      if (score > alpha) alpha = score;
+    }
+    return alpha;
+  };
+
+  const negamax = (depth: number, ply: number, alpha: number, beta: number, pv: string[]): number => {
+    checkTime();
+    const moves = chess.moves();
+    if (moves.length === 0) return chess.inCheck() ? -(MATE_SCORE - ply) : 0;
+    if (ply > 0 && chess.isDraw()) return 0;
+    if (depth === 0) return quiescence(alpha, beta, 0);
+
+    let best = -Infinity;
+    for (const san of orderMoves(moves, previousPv[ply])) {
+      const childPv: string[] = [];
+      chess.move(san);
+      const score = -negamax(depth - 1, ply + 1, -beta, -alpha, childPv);
+      chess.undo();
+      if (score > best) {
+        best = score;
+        pv.splice(0, pv.length, san, ...childPv);
+      }
+      if (score > alpha) alpha = score;
+      if (alpha >= beta) break;
+    }
+    return best;
+  };
+
+  let bestScore = evaluateBoard(chess);
+  let completedDepth = 0;
+  for (let depth = 1; depth <= maxDepth; depth++) {
+    const pv: string[] = [];
+    try {
+      bestScore = negamax(depth, 0, -Infinity, Infinity, pv);
+    } catch (err) {
+      if (err instanceof SearchTimeout) break;
+      throw err;
+    }
+    previousPv = pv;
+    completedDepth = depth;
+    if (Math.abs(bestScore) >= MATE_THRESHOLD) break;
+  }
+
+  const whiteScore = chess.turn() === 'w' ? bestScore : -bestScore;
+  const isMate = Math.abs(whiteScore) >= MATE_THRESHOLD;
+  const matePlies = MATE_SCORE - Math.abs(whiteScore);
+  return {
+    fen,
+    scoreCp: isMate ? null : whiteScore,
+    mate: isMate ? (matePlies === 0 ? 0 : Math.sign(whiteScore) * Math.ceil(matePlies / 2)) : null,
+    bestLine: previousPv,
+    depth: completedDepth,
+    engine: BUILTIN_ENGINE_NAME
+  };
+};
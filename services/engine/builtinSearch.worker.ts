@@ -0,0 +1,17 @@
+import { searchPosition } from "./builtinSearch";
+import { EngineSearchOptions } from "../../types";
+
+interface SearchRequest {
+  id: number;
+  fen: string;
+  options?: EngineSearchOptions;
+}
+
+self.onmessage = (event: MessageEvent<SearchRequest>) => {
+  const { id, fen, options } = event.data;
+  try {
+    self.postMessage({ id, result: searchPosition(fen, options) });
+  } catch (error: any) {
+    self.postMessage({ id, error: error?.message || 'Search failed.' });
+  }
+};
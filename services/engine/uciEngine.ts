@@ -0,0 +1,106 @@
+import { ChessEngine, EngineEvaluation, EngineSearchOptions } from "../../types";
+import { applyMove } from "../moveTree";
+import { hasChess960Castling } from "../variantService";
+
+const INFO_REGEX = /\bdepth (\d+)\b.*\bscore (cp|mate) (-?\d+)\b.*?\bpv (.+)$/;
+
+/**
+ * Converts a UCI principal variation ("e2e4 e7e5 g1f3") into SAN from the
+ * given position. In Chess960 mode castling arrives as the king taking its
+ * own rook ("e1h1"), which applyMove reads as castling.
+ */
+const uciLineToSan = (fen: string, uciMoves: string[]): string[] => {
+  const san: string[] = [];
+  let current = fen;
+  for (const uci of uciMoves) {
+    const move = applyMove(current, { from: uci.slice(0, 2), to: uci.slice(2, 4), promotion: uci[4] });
+    if (!move) break;
+    san.push(move.san);
+    current = move.fen;
+  }
+  return san;
+};
+
+/**
+ * Wraps a UCI engine compiled to WebAssembly (e.g. a Stockfish build) that
+ * runs as a classic Web Worker script and speaks UCI over postMessage.
+ * Resolves once the engine has answered `uciok`, rejects if it never does.
+ */
+export const createUciEngine = (scriptUrl: string, name = 'Stockfish (WASM)', initTimeoutMs = 5000): Promise<ChessEngine> =>
+  new Promise((resolveEngine, rejectEngine) => {
+    let worker: Worker;
+    try {
+      worker = new Worker(scriptUrl);
+    } catch (error) {
+      rejectEngine(error);
+      return;
+    }
+
+    let lineHandler: ((line: string) => void) | null = null;
+    let queue: Promise<unknown> = Promise.resolve();
+
+    const initTimer = setTimeout(() => {
+      worker.terminate();
+      rejectEngine(new Error(`UCI engine at ${scriptUrl} did not respond.`));
+    }, initTimeoutMs);
+
+    worker.onerror = (event) => {
+      clearTimeout(initTimer);
+      rejectEngine(new Error(event.message || `Could not load UCI engine from ${scriptUrl}.`));
+    };
+    worker.onmessage = (event: MessageEvent<string>) => {
+      String(event.data).split('\n').forEach(line => lineHandler?.(line.trim()));
+    };
+
+    const search = (fen: string, options: EngineSearchOptions = {}) =>
+      new Promise<EngineEvaluation>((resolve) => {
+        let last: EngineEvaluation = { fen, scoreCp: 0, mate: null, bestLine: [], depth: 0, engine: name };
+        const sideToMove = fen.split(' ')[1] === 'b' ? -1 : 1;
+        lineHandler = (line) => {
+          if (line.startsWith('info') && !/\bmultipv [2-9]/.test(line)) {
+            const match = line.match(INFO_REGEX);
+            if (!match) return;
+            const value = parseInt(match[3], 10) * sideToMove;
+            last = {
+              fen,
+              scoreCp: match[2] === 'cp' ? value : null,
+              mate: match[2] === 'mate' ? value : null,
+              bestLine: uciLineToSan(fen, match[4].trim().split(/\s+/)),
+              depth: parseInt(match[1], 10),
+              engine: name
+            };
+          } else if (line.startsWith('bestmove')) {
+            lineHandler = null;
+            resolve(last);
+          }
+        };
+        // Engines read Shredder-FEN castling letters only in Chess960 mode.
+        worker.postMessage(`setoption name UCI_Chess960 value ${hasChess960Castling(fen)}`);
+        worker.postMessage(`position fen ${fen}`);
+        worker.postMessage(options.depth
+          ? `go depth ${options.depth}`
+          : `go movetime ${options.timeLimitMs ?? 1000}`);
+      });
+
+    lineHandler = (line) => {
+      if (line === 'uciok') {
+        clearTimeout(initTimer);
+        lineHandler = null;
+        worker.postMessage('isready');
+        resolveEngine({
+          name,
+          evaluate: (fen, options) => {
+            // UCI engines handle one search at a time, so requests are chained.
+            const result = queue.then(() => search(fen, options));
+            queue = result.catch(() => undefined);
+            return result;
+          },
+          dispose: () => {
+            worker.postMessage('quit');
+            worker.terminate();
+          }
+        });
+      }
+    };
+    worker.postMessage('uci');
+  });
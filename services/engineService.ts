@@ -0,0 +1,65 @@
+import { ChessEngine, EngineEvaluation } from "../types";
+import { createBuiltinEngine } from "./engine/builtinEngine";
+import { createUciEngine } from "./engine/uciEngine";
+
+export const MATE_CP = 10000;
+
+/**
+ * Picks the strongest engine available: the WASM UCI engine configured via
+ * STOCKFISH_URL if it loads, otherwise the built-in alpha-beta search.
+ */
+export const createEngine = async (): Promise<ChessEngine> => {
+  const stockfishUrl = process.env.STOCKFISH_URL;
+  if (stockfishUrl) {
+    try {
+      return await createUciEngine(stockfishUrl);
+    } catch (error) {
+      console.warn("UCI engine unavailable, using built-in search:", error);
+    }
+  }
+  return createBuiltinEngine();
+};
+
+// Evaluates positions one by one, reporting each result as soon as it is ready.
+export const evaluatePositions = async (
+  engine: ChessEngine,
+  fens: string[],
+  onEvaluation: (evaluation: EngineEvaluation) => void,
+  signal?: AbortSignal
+): Promise<void> => {
+  for (const fen of fens) {
+    if (signal?.aborted) return;
+    const evaluation = await engine.evaluate(fen);
+    if (signal?.aborted) return;
+    onEvaluation(evaluation);
+  }
+};
+
+// Centipawns from White's point of view, with mates mapped to +/-MATE_CP.
+export const evaluationToCp = (evaluation: EngineEvaluation): number => {
+  if (evaluation.mate !== null) {
+    // "Mate in 0" means the side to move is already checkmated.
+    const whiteMates = evaluation.mate === 0 ? evaluation.fen.split(' ')[1] === 'b' : evaluation.mate > 0;
+    return whiteMates ? MATE_CP : -MATE_CP;
+  }
+  return evaluation.scoreCp ?? 0;
+};
+
+export const formatEvaluation = (evaluation: EngineEvaluation): string => {
+  if (evaluation.mate !== null) return `#${evaluation.mate}`;
+  const pawns = (evaluation.scoreCp ?? 0) / 100;
+  return `${pawns > 0 ? '+' : ''}${pawns.toFixed(2)}`;
+};
+
+// Expected score for White (0-100) from a centipawn evaluation, using the Lichess win-rate curve.
+export const winProbability = (cp: number): number =>
+  50 + 50 * (2 / (1 + Math.exp(-0.00368208 * cp)) - 1);
+
+export const MISTAKE_SWING = 10;
+export const BLUNDER_SWING = 20;
+
+// Winning chances (in percentage points) thrown away by the player who moved from `before` to `after`.
+export const winProbabilityLoss = (before: EngineEvaluation, after: EngineEvaluation): number => {
+  const delta = winProbability(evaluationToCp(after)) - winProbability(evaluationToCp(before));
+  return before.fen.split(' ')[1] === 'w' ? -delta : delta;
+};
@@ -0,0 +1,111 @@
+import { Chess, validateFen } from "chess.js";
+
+// Square -> piece code in react-chessboard's format, e.g. { e1: "wK", e8: "bK" }.
+export type PiecePlacement = Record<string, string>;
+
+export interface FenPosition {
+  pieces: PiecePlacement;
+  turn: 'w' | 'b';
+  castling: string; // subset of "KQkq", empty for none
+  enPassant: string; // target square, empty for none
+  halfmoves: number;
+  fullmoves: number;
+}
+
+const FILES = 'abcdefgh';
+
+// King and rook squares each castling right depends on.
+const CASTLING_SQUARES: Record<string, { king: [string, string]; rook: [string, string] }> = {
+  K: { king: ['e1', 'wK'], rook: ['h1', 'wR'] },
+  Q: { king: ['e1', 'wK'], rook: ['a1', 'wR'] },
+  k: { king: ['e8', 'bK'], rook: ['h8', 'bR'] },
+  q: { king: ['e8', 'bK'], rook: ['a8', 'bR'] }
+};
+
+// Reads the fields of a FEN without judging whether the position is legal.
+export const parseFen = (fen: string): FenPosition => {
+  const [placement = '', turn = 'w', castling = '-', enPassant = '-', halfmoves = '0', fullmoves = '1'] = fen.trim().split(/\s+/);
+  const pieces: PiecePlacement = {};
+  placement.split('/').slice(0, 8).forEach((row, rowIdx) => {
+    let file = 0;
+    for (const char of row) {
+      if (/\d/.test(char)) {
+        file += parseInt(char, 10);
+      } else if (file < 8) {
+        const color = char === char.toUpperCase() ? 'w' : 'b';
+        pieces[`${FILES[file]}${8 - rowIdx}`] = `${color}${char.toUpperCase()}`;
+        file++;
+      }
+    }
+  });
+  return {
+    pieces,
+    turn: turn === 'b' ? 'b' : 'w',
+    castling: castling === '-' ? '' : castling,
+    enPassant: enPassant === '-' ? '' : enPassant,
+    halfmoves: parseInt(halfmoves, 10) || 0,
+    fullmoves: parseInt(fullmoves, 10) || 1
+  };
+};
+
+export const buildFen = ({ pieces, turn, castling, enPassant, halfmoves, fullmoves }: FenPosition): string => {
+  const rows: string[] = [];
+  for (let rank = 8; rank >= 1; rank--) {
+    let row = '';
+    let empty = 0;
+    for (const file of FILES) {
+      const piece = pieces[`${file}${rank}`];
+      if (!piece) {
+        empty++;
+        continue;
+      }
+      if (empty) row += empty;
+      empty = 0;
+      row += piece[0] === 'w' ? piece[1].toUpperCase() : piece[1].toLowerCase();
+    }
+    rows.push(empty ? row + empty : row);
+  }
+  const rights = 'KQkq'.split('').filter(r => castling.includes(r)).join('');
+  return `${rows.join('/')} ${turn} ${rights || '-'} ${enPassant || '-'} ${halfmoves} ${fullmoves}`;
+};
+
+// Castling rights the placement allows: king and rook still on their home squares.
+export const availableCastlingRights = (pieces: PiecePlacement): string =>
+  Object.entries(CASTLING_SQUARES)
+    .filter(([, { king, rook }]) => pieces[king[0]] === king[1] && pieces[rook[0]] === rook[1])
+    .map(([right]) => right)
+    .join('');
+
+// En passant targets consistent with the placement: a pawn of the side that just moved stands on its fourth rank with the squares behind it empty.
+export const enPassantCandidates = (pieces: PiecePlacement, turn: 'w' | 'b'): string[] => {
+  const [pawnRank, targetRank, originRank, pawn] = turn === 'w' ? [5, 6, 7, 'bP'] : [4, 3, 2, 'wP'];
+  return FILES.split('')
+    .filter(file => pieces[`${file}${pawnRank}`] === pawn && !pieces[`${file}${targetRank}`] && !pieces[`${file}${originRank}`])
+    .map(file => `${file}${targetRank}`);
+};
+
+// Whether two FENs describe the same position, ignoring the move counters.
+export const samePosition = (a: string, b: string): boolean =>
+  a.split(' ').slice(0, 4).join(' ') === b.split(' ').slice(0, 4).join(' ');
+
+/**
+ * Checks that a FEN describes a playable position. Returns a user-facing
+ * reason when it does not, or null when it is fine.
+ */
+export const validatePosition = (fen: string): string | null => {
+  const result = validateFen(fen);
+  if (!result.ok) return result.error || 'Invalid FEN.';
+
+  const position = parseFen(fen);
+  const allowed = availableCastlingRights(position.pieces);
+  const impossible = position.castling.split('').filter(r => !allowed.includes(r));
+  if (impossible.length) return `Castling right ${impossible.join('')} needs the king and rook on their starting squares.`;
+  if (position.enPassant && !enPassantCandidates(position.pieces, position.turn).includes(position.enPassant)) {
+    return `No pawn can be captured en passant on ${position.enPassant}.`;
+  }
+
+  // The side that just moved may not have left its own king in check.
+  const flipped = buildFen({ ...position, turn: position.turn === 'w' ? 'b' : 'w', enPassant: '' });
+  if (new Chess(flipped).inCheck()) return 'The side not to move is in check.';
+  return null;
+};
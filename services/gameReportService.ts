@@ -0,0 +1,308 @@
+import { AnalysisPhase, FullAnalysis, MoveAnnotation, MoveClassification, MoveTree, PlayerColor } from "../types";
+import { parseFen } from "./fenService";
+import { applyMove, getMainLine, moveNumberLabel } from "./moveTree";
+import { buildAnnotatedPgn, pgnFileName } from "./pgnService";
+
+const FILES = 'abcdefgh';
+const SQUARE_SIZE = 40;
+const BOARD_SIZE = SQUARE_SIZE * 8;
+// Solid glyphs for both sides, filled white or black; U+FE0E asks for text rather than emoji rendering.
+const PIECE_GLYPHS: Record<string, string> = { K: '♚', Q: '♛', R: '♜', B: '♝', N: '♞', P: '♟' };
+const PLAYED_ARROW = 'rgba(234, 88, 12, 0.8)';
+const BETTER_ARROW = 'rgba(5, 150, 105, 0.8)';
+
+// Moves that get a diagram, by priority when there are more than MAX_DIAGRAMS; the diagrams follow game order.
+const KEY_MOMENT_CLASSIFICATIONS: MoveClassification[] = ['blunder', 'mistake', 'brilliant'];
+const MAX_DIAGRAMS = 8;
+
+// Print-friendly counterparts of CLASSIFICATION_STYLES.
+const CLASSIFICATION_TEXT: Record<MoveClassification, { symbol: string; label: string; color: string }> = {
+  brilliant: { symbol: '!!', label: 'Brilliant', color: '#0891b2' },
+  good: { symbol: '!', label: 'Good move', color: '#059669' },
+  inaccuracy: { symbol: '?!', label: 'Inaccuracy', color: '#d97706' },
+  mistake: { symbol: '?', label: 'Mistake', color: '#ea580c' },
+  blunder: { symbol: '??', label: 'Blunder', color: '#dc2626' }
+};
+
+const REPORT_HEADERS = ['Event', 'Site', 'Date', 'Round', 'White', 'WhiteElo', 'Black', 'BlackElo', 'Result', 'ECO', 'Opening', 'TimeControl', 'Variant'];
+
+export interface BoardArrow {
+  from: string;
+  to: string;
+  color: string;
+}
+
+export interface BoardDiagramOptions {
+  orientation?: PlayerColor;
+  highlight?: string[]; // squares to tint, e.g. the move played
+  arrows?: BoardArrow[];
+}
+
+const escapeXml = (text: string) =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+const squareOrigin = (square: string, orientation: PlayerColor) => {
+  const file = FILES.indexOf(square[0]);
+  const rank = parseInt(square[1], 10) - 1;
+  return orientation === 'white'
+    ? { x: file * SQUARE_SIZE, y: (7 - rank) * SQUARE_SIZE }
+    : { x: (7 - file) * SQUARE_SIZE, y: rank * SQUARE_SIZE };
+};
+
+// Arrow from square centre to square centre, drawn as a shaft and a head so diagrams need no shared <defs>.
+const arrowSvg = ({ from, to, color }: BoardArrow, orientation: PlayerColor): string => {
+  const a = squareOrigin(from, orientation);
+  const b = squareOrigin(to, orientation);
+  const [x1, y1, x2, y2] = [a.x, a.y, b.x, b.y].map(v => v + SQUARE_SIZE / 2);
+  const length = Math.hypot(x2 - x1, y2 - y1);
+  if (!length) return '';
+  const [ux, uy] = [(x2 - x1) / length, (y2 - y1) / length];
+  const head = SQUARE_SIZE * 0.4;
+  const [bx, by] = [x2 - ux * head, y2 - uy * head];
+  const [px, py] = [-uy * head * 0.5, ux * head * 0.5];
+  const round = (v: number) => Math.round(v * 10) / 10;
+  return `<line x1="${round(x1)}" y1="${round(y1)}" x2="${round(bx)}" y2="${round(by)}" stroke="${color}" stroke-width="${SQUARE_SIZE * 0.18}" stroke-linecap="round"/>` +
+    `<polygon points="${[x2, y2, bx + px, by + py, bx - px, by - py].map(round).join(' ')}" fill="${color}"/>`;
+};
+
+/**
+ * Draws a position as a standalone SVG with coordinates, for reports that
+ * must render without network access or the app's board component.
+ */
+export const renderBoardSvg = (fen: string, { orientation = 'white', highlight = [], arrows = [] }: BoardDiagramOptions = {}): string => {
+  const { pieces } = parseFen(fen);
+  const parts: string[] = [];
+  for (let rank = 1; rank <= 8; rank++) {
+    for (const file of FILES) {
+      const square = `${file}${rank}`;
+      const { x, y } = squareOrigin(square, orientation);
+      const light = (FILES.indexOf(file) + rank) % 2 === 0;
+      parts.push(`<rect x="${x}" y="${y}" width="${SQUARE_SIZE}" height="${SQUARE_SIZE}" fill="${light ? '#f0d9b5' : '#b58863'}"/>`);
+      if (highlight.includes(square)) {
+        parts.push(`<rect x="${x}" y="${y}" width="${SQUARE_SIZE}" height="${SQUARE_SIZE}" fill="rgba(250, 204, 21, 0.45)"/>`);
+      }
+      const bottomEdge = orientation === 'white' ? rank === 1 : rank === 8;
+      const leftEdge = orientation === 'white' ? file === 'a' : file === 'h';
+      const labelColor = light ? '#b58863' : '#f0d9b5';
+      if (bottomEdge) parts.push(`<text x="${x + SQUARE_SIZE - 3}" y="${y + SQUARE_SIZE - 3}" font-size="9" text-anchor="end" fill="${labelColor}">${file}</text>`);
+      if (leftEdge) parts.push(`<text x="${x + 3}" y="${y + 10}" font-size="9" fill="${labelColor}">${rank}</text>`);
+    }
+  }
+  Object.entries(pieces).forEach(([square, piece]) => {
+    const { x, y } = squareOrigin(square, orientation);
+    const white = piece[0] === 'w';
+    parts.push(
+      `<text x="${x + SQUARE_SIZE / 2}" y="${y + SQUARE_SIZE * 0.8}" font-size="${SQUARE_SIZE * 0.85}" text-anchor="middle" ` +
+      `fill="${white ? '#ffffff' : '#111827'}" stroke="${white ? '#111827' : '#ffffff'}" stroke-width="${white ? 1.2 : 0.6}">${PIECE_GLYPHS[piece[1]]}\uFE0E</text>`
+    );
+  });
+  arrows.forEach(arrow => parts.push(arrowSvg(arrow, orientation)));
+  return `<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 ${BOARD_SIZE} ${BOARD_SIZE}" width="${BOARD_SIZE}" height="${BOARD_SIZE}" ` +
+    `font-family="'DejaVu Sans', 'Segoe UI Symbol', 'Noto Sans Symbols2', 'Arial Unicode MS', sans-serif" role="img" aria-label="${escapeXml(fen)}">${parts.join('')}</svg>`;
+};
+
+interface KeyMoment {
+  annotation: MoveAnnotation;
+  moveLabel: string; // e.g. "23... Nxe4??"
+  fen: string; // position after the move
+  svg: string;
+}
+
+// Diagrams of the analysed game's turning points: the position after each move, with the move played and the better one drawn in.
+const collectKeyMoments = (tree: MoveTree, analysis: FullAnalysis, orientation: PlayerColor): KeyMoment[] => {
+  const mainLine = getMainLine(tree);
+  const fens = [tree.root.fen, ...mainLine.map(n => n.fen)];
+  const byPriority = KEY_MOMENT_CLASSIFICATIONS.flatMap(c =>
+    analysis.moveAnnotations.filter(a => a.classification === c && mainLine[a.ply]?.san === a.san)
+  );
+  return byPriority
+    .slice(0, MAX_DIAGRAMS)
+    .sort((a, b) => a.ply - b.ply)
+    .flatMap(annotation => {
+      const played = applyMove(fens[annotation.ply], annotation.san);
+      if (!played) return [];
+      const better = annotation.betterMove ? applyMove(fens[annotation.ply], annotation.betterMove) : null;
+      const arrows: BoardArrow[] = [{ from: played.from, to: played.to, color: PLAYED_ARROW }];
+      if (better && better.san !== played.san) arrows.push({ from: better.from, to: better.to, color: BETTER_ARROW });
+      return [{
+        annotation,
+        moveLabel: `${moveNumberLabel(played.fen)} ${played.san}${CLASSIFICATION_TEXT[annotation.classification].symbol}`,
+        fen: played.fen,
+        svg: renderBoardSvg(played.fen, { orientation, highlight: [played.from, played.to], arrows })
+      }];
+    });
+};
+
+const reportPhases = (analysis: FullAnalysis): [string, AnalysisPhase][] => [
+  ['Opening', analysis.opening],
+  ['Middlegame', analysis.middlegame],
+  ['Tactics', analysis.tactics],
+  ['Endgame', analysis.endgame],
+  ...(analysis.timeManagement ? [['Time Management', analysis.timeManagement] as [string, AnalysisPhase]] : [])
+];
+
+const reportTitle = (headers: Record<string, string>) =>
+  `${headers.White || 'White'} vs ${headers.Black || 'Black'}${headers.Result && headers.Result !== '*' ? ` (${headers.Result})` : ''}`;
+
+const reportHeaders = (headers: Record<string, string>): [string, string][] =>
+  REPORT_HEADERS.filter(tag => headers[tag] && headers[tag] !== '?' && headers[tag] !== '-').map(tag => [tag, headers[tag]]);
+
+// Same bands as the phase cards in the app.
+const scoreColor = (score: number) => (score >= 80 ? '#059669' : score >= 60 ? '#4f46e5' : score >= 40 ? '#d97706' : '#dc2626');
+
+export interface GameReportOptions {
+  orientation?: PlayerColor; // side the diagrams are drawn from
+  generatedAt?: Date;
+}
+
+const REPORT_STYLES = `
+  body { margin: 0; background: #f8fafc; color: #0f172a; font: 15px/1.55 system-ui, -apple-system, 'Segoe UI', Roboto, sans-serif; }
+  main { max-width: 860px; margin: 0 auto; padding: 32px 24px; background: #fff; }
+  h1 { font-size: 26px; margin: 0 0 4px; }
+  h2 { font-size: 18px; margin: 32px 0 12px; padding-bottom: 4px; border-bottom: 2px solid #e2e8f0; }
+  h3 { font-size: 15px; margin: 16px 0 4px; }
+  .subtitle, footer { color: #64748b; font-size: 13px; }
+  table.tags { border-collapse: collapse; font-size: 13px; margin-top: 12px; }
+  table.tags th { text-align: left; padding: 2px 16px 2px 0; color: #64748b; font-weight: 600; }
+  .scores { display: grid; grid-template-columns: repeat(auto-fit, minmax(130px, 1fr)); gap: 12px; }
+  .score { border: 1px solid #e2e8f0; border-radius: 12px; padding: 10px 14px; }
+  .score span { display: block; font-size: 11px; font-weight: 700; letter-spacing: 0.08em; text-transform: uppercase; color: #64748b; }
+  .score strong { font-size: 22px; }
+  .moments { display: grid; grid-template-columns: repeat(auto-fill, minmax(320px, 1fr)); gap: 24px; }
+  figure { margin: 0; break-inside: avoid; page-break-inside: avoid; }
+  figure svg { width: 100%; height: auto; max-width: 320px; display: block; border-radius: 6px; }
+  figcaption { margin-top: 6px; font-size: 14px; }
+  .classification { font-weight: 700; }
+  .fen { font-family: ui-monospace, Menlo, Consolas, monospace; font-size: 11px; color: #64748b; word-break: break-all; }
+  pre { white-space: pre-wrap; font: 12px/1.5 ui-monospace, Menlo, Consolas, monospace; background: #f1f5f9; padding: 12px; border-radius: 8px; }
+  footer { margin-top: 32px; }
+  @media print {
+    body { background: #fff; }
+    main { padding: 0; max-width: none; }
+    h2 { break-after: avoid; page-break-after: avoid; }
+  }
+`;
+
+/**
+ * Self-contained HTML report of an analysed game: headers, phase scores
+ * and feedback, diagrams of the key moments, overall advice, the study list
+ * and the annotated PGN. Uses no external resources, so it can be sent as a
+ * file and printed to PDF from the browser.
+ */
+export const buildHtmlReport = (tree: MoveTree, analysis: FullAnalysis, { orientation = 'white', generatedAt = new Date() }: GameReportOptions = {}): string => {
+  const h = escapeXml;
+  const title = reportTitle(tree.headers);
+  const moments = collectKeyMoments(tree, analysis, orientation);
+  const phases = reportPhases(analysis);
+  const subtitle = [tree.headers.Event, tree.headers.Date].filter(v => v && !v.includes('?')).join(' · ');
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>${h(title)} — Game Report</title>
+<style>${REPORT_STYLES}</style>
+</head>
+<body>
+<main>
+<h1>${h(title)}</h1>
+${subtitle ? `<p class="subtitle">${h(subtitle)}</p>` : ''}
+<table class="tags">
+${reportHeaders(tree.headers).map(([tag, value]) => `<tr><th>${h(tag)}</th><td>${h(value)}</td></tr>`).join('\n')}
+</table>
+
+<h2>Scores</h2>
+<div class="scores">
+${phases.map(([name, phase]) => `<div class="score"><span>${h(name)}</span><strong style="color: ${scoreColor(phase.score)}">${phase.score}%</strong></div>`).join('\n')}
+</div>
+
+<h2>Feedback</h2>
+${phases.map(([name, phase]) => `<h3>${h(name)} (${phase.score}%)</h3>
+<p>${h(phase.feedback)}</p>
+${phase.errors.length ? `<ul>${phase.errors.map(e => `<li>${h(e)}</li>`).join('')}</ul>` : ''}`).join('\n')}
+${moments.length ? `
+<h2>Key moments</h2>
+<div class="moments">
+${moments.map(m => `<figure>
+${m.svg}
+<figcaption>
+<strong>${h(m.moveLabel)}</strong> <span class="classification" style="color: ${CLASSIFICATION_TEXT[m.annotation.classification].color}">${CLASSIFICATION_TEXT[m.annotation.classification].label}</span>
+<p>${h(m.annotation.comment)}</p>
+${m.annotation.betterMove ? `<p><strong>Better:</strong> ${h(m.annotation.betterMove)}</p>` : ''}
+<p class="fen">${h(m.fen)}</p>
+</figcaption>
+</figure>`).join('\n')}
+</div>` : ''}
+
+<h2>Overall advice</h2>
+<p>${h(analysis.overallAdvice)}</p>
+${analysis.referencedBooks.length ? `
+<h2>Study list</h2>
+<ul>${analysis.referencedBooks.map(b => `<li>${h(b)}</li>`).join('')}</ul>` : ''}
+
+<h2>Game</h2>
+<pre>${h(buildAnnotatedPgn(tree, analysis))}</pre>
+
+<footer>Generated by GM Studio on ${h(generatedAt.toLocaleString())}.</footer>
+</main>
+</body>
+</html>
+`;
+};
+
+// encodeURIComponent leaves parentheses and quotes, which would end a Markdown link early.
+const svgDataUri = (svg: string) =>
+  `data:image/svg+xml;charset=utf-8,${encodeURIComponent(svg).replace(/[()']/g, c => `%${c.charCodeAt(0).toString(16).toUpperCase()}`)}`;
+
+const escapeMarkdown = (text: string) => text.replace(/([\\`*_[\]<>|])/g, '\\$1');
+
+/**
+ * Markdown version of the HTML report. Diagrams are embedded as SVG data
+ * URIs, so the file stays self-contained, with the FEN below each one for
+ * viewers that don't show them.
+ */
+export const buildMarkdownReport = (tree: MoveTree, analysis: FullAnalysis, { orientation = 'white', generatedAt = new Date() }: GameReportOptions = {}): string => {
+  const md = escapeMarkdown;
+  const phases = reportPhases(analysis);
+  const moments = collectKeyMoments(tree, analysis, orientation);
+  const lines: string[] = [
+    `# ${md(reportTitle(tree.headers))}`,
+    '',
+    '| Tag | Value |',
+    '| --- | --- |',
+    ...reportHeaders(tree.headers).map(([tag, value]) => `| ${tag} | ${md(value)} |`),
+    '',
+    '## Scores',
+    '',
+    '| Phase | Score |',
+    '| --- | ---: |',
+    ...phases.map(([name, phase]) => `| ${name} | ${phase.score}% |`),
+    '',
+    '## Feedback',
+    ...phases.flatMap(([name, phase]) => ['', `### ${name} (${phase.score}%)`, '', md(phase.feedback), ...(phase.errors.length ? ['', ...phase.errors.map(e => `- ${md(e)}`)] : [])])
+  ];
+  if (moments.length) {
+    lines.push('', '## Key moments');
+    moments.forEach(m => {
+      lines.push(
+        '',
+        `### ${md(m.moveLabel)} — ${CLASSIFICATION_TEXT[m.annotation.classification].label}`,
+        '',
+        `![Position after ${md(m.moveLabel)}](${svgDataUri(m.svg)})`,
+        '',
+        md(m.annotation.comment),
+        ...(m.annotation.betterMove ? ['', `**Better:** ${md(m.annotation.betterMove)}`] : []),
+        '',
+        `FEN: \`${m.fen}\``
+      );
+    });
+  }
+  lines.push('', '## Overall advice', '', md(analysis.overallAdvice));
+  if (analysis.referencedBooks.length) lines.push('', '## Study list', '', ...analysis.referencedBooks.map(b => `- ${md(b)}`));
+  lines.push('', '## Game', '', '```pgn', buildAnnotatedPgn(tree, analysis), '```', '', `*Generated by GM Studio on ${generatedAt.toLocaleString()}.*`, '');
+  return lines.join('\n');
+};
+
+export const reportFileName = (headers: Record<string, string>, extension: 'html' | 'md'): string =>
+  pgnFileName(headers).replace(/\.pgn$/, `_report.${extension}`);
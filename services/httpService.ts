@@ -0,0 +1,64 @@
+const MAX_RATE_LIMIT_RETRIES = 3;
+const BASE_BACKOFF_MS = 1000;
+const MAX_BACKOFF_MS = 60000;
+
+// Resolves after `ms`, or rejects with an AbortError as soon as the signal fires.
+export const sleep = (ms: number, signal?: AbortSignal) =>
+  new Promise<void>((resolve, reject) => {
+    if (signal?.aborted) return reject(new DOMException('Aborted', 'AbortError'));
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(new DOMException('Aborted', 'AbortError'));
+    };
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+
+// Delay before retrying a 429: the server's Retry-After (seconds or HTTP date) if given, else exponential backoff.
+const retryDelay = (response: Response, attempt: number): number => {
+  const retryAfter = response.headers.get('Retry-After');
+  if (retryAfter) {
+    const seconds = Number(retryAfter);
+    const ms = isNaN(seconds) ? Date.parse(retryAfter) - Date.now() : seconds * 1000;
+    if (!isNaN(ms)) return Math.min(Math.max(ms, 0), MAX_BACKOFF_MS);
+  }
+  return Math.min(BASE_BACKOFF_MS * 2 ** attempt, MAX_BACKOFF_MS);
+};
+
+/**
+ * `fetch` that waits and retries rate-limited (429) responses a few times.
+ * Any other response, or the last 429, is returned for the caller to handle.
+ */
+export const fetchWithRetry = async (url: string, init: RequestInit = {}): Promise<Response> => {
+  for (let attempt = 0; ; attempt++) {
+    const response = await fetch(url, init);
+    if (response.status !== 429 || attempt >= MAX_RATE_LIMIT_RETRIES) return response;
+    await sleep(retryDelay(response, attempt), init.signal ?? undefined);
+  }
+};
+
+// Parses an ndjson body line by line as it downloads.
+export async function* readNdjson<T>(response: Response): AsyncGenerator<T> {
+  if (!response.body) {
+    for (const line of (await response.text()).split('\n')) if (line.trim()) yield JSON.parse(line) as T;
+    return;
+  }
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+  try {
+    while (true) {
+      const { done, value } = await reader.read();
+      buffer += decoder.decode(value, { stream: !done });
+      const lines = buffer.split('\n');
+      buffer = done ? '' : lines.pop()!;
+      for (const line of lines) if (line.trim()) yield JSON.parse(line) as T;
+      if (done) return;
+    }
+  } finally {
+    reader.releaseLock();
+  }
+}
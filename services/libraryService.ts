@@ -0,0 +1,110 @@
+import { LibraryGame } from "../types";
+
+const DB_NAME = 'gm-studio';
+const DB_VERSION = 1;
+const GAMES_STORE = 'games';
+const EXPORT_FORMAT = 'gm-studio-library';
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDb = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(GAMES_STORE)) {
+          db.createObjectStore(GAMES_STORE, { keyPath: 'id' }).createIndex('updatedAt', 'updatedAt');
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return dbPromise;
+};
+
+// Runs one request in its own transaction and resolves with its result.
+const runRequest = async <T>(mode: IDBTransactionMode, action: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> => {
+  const db = await openDb();
+  return new Promise((resolve, reject) => {
+    const request = action(db.transaction(GAMES_STORE, mode).objectStore(GAMES_STORE));
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+};
+
+export const listLibraryGames = async (): Promise<LibraryGame[]> => {
+  try {
+    const games = await runRequest<LibraryGame[]>('readonly', store => store.getAll());
+    return games.sort((a, b) => b.updatedAt - a.updatedAt);
+  } catch (error) {
+    console.error("Library read error:", error);
+    throw new Error("Could not open the game library.");
+  }
+};
+
+export const saveLibraryGame = async (game: LibraryGame): Promise<void> => {
+  try {
+    await runRequest('readwrite', store => store.put(game));
+  } catch (error) {
+    console.error("Library write error:", error);
+    throw new Error("Could not save the game to the library.");
+  }
+};
+
+export const deleteLibraryGame = async (id: string): Promise<void> => {
+  try {
+    await runRequest('readwrite', store => store.delete(id));
+  } catch (error) {
+    console.error("Library delete error:", error);
+    throw new Error("Could not delete the game from the library.");
+  }
+};
+
+type LibraryContent = Pick<LibraryGame, 'source' | 'headers' | 'pgn' | 'analysis' | 'chat'>;
+
+// True when saving `next` over `saved` would only bump the timestamp.
+export const hasSameContent = (saved: LibraryContent, next: LibraryContent): boolean => {
+  const content = (g: LibraryContent) => JSON.stringify([g.source, g.headers, g.pgn, g.analysis, g.chat]);
+  return content(saved) === content(next);
+};
+
+export const exportLibrary = async (): Promise<string> =>
+  JSON.stringify({ format: EXPORT_FORMAT, version: 1, exportedAt: Date.now(), games: await listLibraryGames() }, null, 2);
+
+/**
+ * Merges an exported library into this one. A game that already exists is
+ * only replaced when the imported copy is newer. Returns the number of games
+ * written.
+ */
+export const importLibrary = async (json: string): Promise<number> => {
+  let games: LibraryGame[];
+  try {
+    const data = JSON.parse(json);
+    if (data?.format !== EXPORT_FORMAT || !Array.isArray(data.games)) throw new Error('Unexpected format');
+    games = data.games.filter((g: any) => g && typeof g.id === 'string' && typeof g.pgn === 'string');
+  } catch (error) {
+    console.error("Library import parse error:", error);
+    throw new Error("This file is not a GM Studio library export.");
+  }
+
+  const existing = new Map((await listLibraryGames()).map(g => [g.id, g]));
+  let written = 0;
+  for (const game of games) {
+    const current = existing.get(game.id);
+    if (current && current.updatedAt >= game.updatedAt) continue;
+    await saveLibraryGame({
+      ...game,
+      headers: game.headers || {},
+      analysis: game.analysis || null,
+      chat: game.chat || [],
+      tags: game.tags || []
+    });
+    written++;
+  }
+  return written;
+};
@@ -1,34 +1,106 @@
+import { LichessGameFilters, LichessGameSummary, LichessPlayer, OnlineGameSummary, OnlineGamesOptions, OnlineGamesPage } from "../types";
+import { fetchWithRetry, readNdjson } from "./httpService";
 
-import { LichessGameSummary } from "../types";
+// Overridable so the importer can be exercised against a local stand-in server.
+const LICHESS_URL = (process.env.LICHESS_URL || 'https://lichess.org').replace(/\/$/, '');
 
-export const fetchRecentLichessGames = async (username: string): Promise<LichessGameSummary[]> => {
+export const LICHESS_PAGE_SIZE = 20;
+
+// Fetches a Lichess API path and turns failures into user-facing errors.
+const lichessFetch = async (path: string, accept: string, signal?: AbortSignal, notFoundMessage = "Lichess user not found."): Promise<Response> => {
+  const response = await fetchWithRetry(`${LICHESS_URL}${path}`, { headers: { 'Accept': accept }, signal });
+  if (response.ok) return response;
+  if (response.status === 404) throw new Error(notFoundMessage);
+  if (response.status === 429) throw new Error("Lichess rate limit reached. Please wait a minute and try again.");
+  if (response.status === 401 || response.status === 403) throw new Error("This Lichess account's games are private.");
+  throw new Error(`Lichess request failed (HTTP ${response.status}).`);
+};
+
+// Maps the Lichess export format onto the summary shared by all game sources.
+const toGameSummary = (game: LichessGameSummary): OnlineGameSummary => {
+  const player = (p: LichessPlayer) => ({
+    name: p.user?.name || (p.aiLevel ? `Stockfish level ${p.aiLevel}` : 'Anon'),
+    rating: p.rating
+  });
+  return {
+    source: 'lichess',
+    id: game.id,
+    white: player(game.players.white),
+    black: player(game.players.black),
+    createdAt: game.createdAt,
+    status: game.status,
+    variant: game.variant,
+    speed: game.perf || game.speed,
+    rated: game.rated
+  };
+};
+
+const buildGamesQuery = (filters: LichessGameFilters, params: Record<string, string | number | boolean | undefined>) => {
+  const query = new URLSearchParams();
+  const all = {
+    ...params,
+    perfType: filters.perfType,
+    rated: filters.rated || undefined,
+    color: filters.color,
+    vs: filters.opponent?.trim() || undefined,
+    since: filters.since,
+    until: params.until ?? filters.until,
+    analysed: filters.analysed || undefined
+  };
+  Object.entries(all).forEach(([key, value]) => {
+    if (value !== undefined && value !== '') query.set(key, String(value));
+  });
+  return query.toString();
+};
+
+
+/**
+ * Streams one page of a user's games, newest first. Games are reported
+ * through `onGame` while the export downloads.
+ */
+export const streamLichessGames = async (
+  username: string,
+  filters: LichessGameFilters = {},
+  { until, max = LICHESS_PAGE_SIZE, signal, onGame }: OnlineGamesOptions = {}
+): Promise<OnlineGamesPage> => {
+  const games: OnlineGameSummary[] = [];
   try {
-    const response = await fetch(`https://lichess.org/api/games/user/${username}?max=10&moves=false&pgnInJson=false`, {
-      headers: { 'Accept': 'application/x-ndjson' }
-    });
-    if (!response.ok) {
-      throw new Error("Lichess user not found or private.");
+    const query = buildGamesQuery(filters, { max, moves: false, pgnInJson: false, until });
+    const response = await lichessFetch(`/api/games/user/${encodeURIComponent(username)}?${query}`, 'application/x-ndjson', signal);
+    for await (const raw of readNdjson<LichessGameSummary>(response)) {
+      const game = toGameSummary(raw);
+      games.push(game);
+      onGame?.(game);
     }
-    const text = await response.text();
-    const lines = text.trim().split('\n');
-    return lines.map(line => JSON.parse(line) as LichessGameSummary);
   } catch (error) {
     console.error("Lichess list fetch error:", error);
     throw error;
   }
+  const last = games[games.length - 1];
+  return { games, nextUntil: games.length === max && last ? last.createdAt - 1 : null };
 };
 
-export const fetchLichessGamePgn = async (gameId: string): Promise<string> => {
+export const fetchLichessGamePgn = async (gameId: string, signal?: AbortSignal): Promise<string> => {
   try {
-    const response = await fetch(`https://lichess.org/game/export/${gameId}?moves=true&pgnInJson=false`, {
-      headers: { 'Accept': 'application/x-chess-pgn' }
-    });
-    if (!response.ok) {
-      throw new Error("Could not fetch game PGN.");
-    }
+    const response = await lichessFetch(`/game/export/${gameId}?moves=true&clocks=true&pgnInJson=false`, 'application/x-chess-pgn', signal, "Lichess game not found.");
     return await response.text();
   } catch (error) {
     console.error("Lichess PGN fetch error:", error);
     throw error;
   }
 };
+
+// Full PGN export of a user's last `max` games, newest first.
+export const fetchLichessGamesPgn = async (username: string, max: number, signal?: AbortSignal): Promise<string> => {
+  try {
+    const response = await lichessFetch(
+      `/api/games/user/${encodeURIComponent(username)}?max=${max}&moves=true&opening=true&clocks=false&evals=false`,
+      'application/x-chess-pgn',
+      signal
+    );
+    return await response.text();
+  } catch (error) {
+    console.error("Lichess games export error:", error);
+    throw error;
+  }
+};
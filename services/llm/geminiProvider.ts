@@ -0,0 +1,44 @@
+import { GoogleGenAI } from "@google/genai";
+import { LlmChatRequest, LlmJsonRequest, LlmProvider } from "../../types";
+
+export const createGeminiProvider = (model: string, apiKey?: string): LlmProvider => {
+  const ai = new GoogleGenAI({ apiKey: apiKey || process.env.API_KEY });
+
+  // Everything but the last message becomes chat history.
+  const startChat = (systemInstruction: string, messages: LlmChatRequest['messages']) =>
+    ai.chats.create({
+      model,
+      config: { systemInstruction },
+      history: messages.slice(0, -1).map(m => ({
+        role: m.role === 'user' ? 'user' : 'model',
+        parts: [{ text: m.content }]
+      }))
+    });
+
+  return {
+    id: 'gemini',
+    model,
+    generateJson: async ({ systemInstruction, prompt, schema }: LlmJsonRequest) => {
+      const response = await ai.models.generateContent({
+        model,
+        contents: prompt,
+        config: {
+          systemInstruction,
+          responseMimeType: "application/json",
+          responseJsonSchema: schema
+        }
+      });
+      return response.text || '';
+    },
+    streamChat: async function* ({ systemInstruction, messages, signal }: LlmChatRequest) {
+      const stream = await startChat(systemInstruction, messages).sendMessageStream({
+        message: messages[messages.length - 1]?.content || '',
+        // Per-request config replaces the chat config, so the system instruction is repeated here.
+        config: { systemInstruction, abortSignal: signal }
+      });
+      for await (const chunk of stream) {
+        if (chunk.text) yield chunk.text;
+      }
+    }
+  };
+};
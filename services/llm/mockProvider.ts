@@ -0,0 +1,83 @@
+import { LlmChatRequest, LlmJsonRequest, LlmProvider } from "../../types";
+
+const MOCK_ARRAY_LENGTH = 2;
+const MOCK_STREAM_DELAY_MS = 40;
+
+// FNV-1a, so the same input always produces the same mock output.
+const hashString = (text: string): number => {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193) >>> 0;
+  }
+  return hash;
+};
+
+// The parts of JSON Schema the mock understands.
+interface JsonSchema {
+  type?: string;
+  enum?: unknown[];
+  properties?: Record<string, JsonSchema>;
+  items?: JsonSchema;
+}
+
+// Builds a value matching a JSON Schema, seeded by the prompt and the property path.
+const fillSchema = (schema: JsonSchema | undefined, seed: string, path: string, index = 0): unknown => {
+  const hash = hashString(`${seed}|${path}`);
+  if (schema?.enum) return schema.enum[hash % schema.enum.length];
+  switch (schema?.type) {
+    case 'object':
+      return Object.fromEntries(
+        Object.entries(schema.properties || {}).map(([key, child]) => [key, fillSchema(child, seed, path ? `${path}.${key}` : key, index)])
+      );
+    case 'array':
+      return Array.from({ length: MOCK_ARRAY_LENGTH }, (_, i) => fillSchema(schema.items, seed, `${path}[${i}]`, i));
+    case 'integer':
+      return index;
+    case 'number':
+      return 40 + (hash % 51);
+    case 'boolean':
+      return hash % 2 === 0;
+    default:
+      return `Mock ${path.replace(/\[\d+\]/g, '')} #${hash % 1000}.`;
+  }
+};
+
+// Move requests list the legal moves; answering with one of them lets play-out run offline.
+const LEGAL_MOVES_REGEX = /^Legal moves: (.+)$/m;
+
+const fillJson = (schema: JsonSchema | undefined, prompt: string): unknown => {
+  const value = fillSchema(schema, prompt, '');
+  const legalMoves = prompt.match(LEGAL_MOVES_REGEX)?.[1].trim().split(/\s+/);
+  if (legalMoves && schema?.properties?.move) {
+    (value as Record<string, unknown>).move = legalMoves[hashString(prompt) % legalMoves.length];
+  }
+  return value;
+};
+
+/**
+ * Offline provider for demos and tests: no network, and identical requests
+ * always get identical answers.
+ */
+export const createMockProvider = (model = 'mock-coach'): LlmProvider => {
+  const reply = ({ messages }: LlmChatRequest) => {
+    const last = messages[messages.length - 1]?.content || '';
+    const hash = hashString(messages.map(m => `${m.role}:${m.content}`).join('\n'));
+    return `Mock coach reply #${hash % 1000} to "${last.slice(0, 80)}" (${messages.length} message${messages.length === 1 ? '' : 's'} in this conversation).`;
+  };
+
+  return {
+    id: 'mock',
+    model,
+    generateJson: async ({ prompt, schema }: LlmJsonRequest) =>
+      JSON.stringify(fillJson(schema as JsonSchema, prompt)),
+    // Streams the reply word by word so the streaming UI can be exercised offline.
+    streamChat: async function* (request: LlmChatRequest) {
+      for (const word of reply(request).split(/(?<= )/)) {
+        await new Promise(resolve => setTimeout(resolve, MOCK_STREAM_DELAY_MS));
+        if (request.signal?.aborted) return;
+        yield word;
+      }
+    }
+  };
+};
@@ -0,0 +1,68 @@
+import { LlmChatRequest, LlmJsonRequest, LlmProvider } from "../../types";
+
+/**
+ * Talks to any OpenAI-compatible `/chat/completions` endpoint: OpenAI itself,
+ * or self-hosted servers such as Ollama, LM Studio or vLLM.
+ */
+export const createOpenAiProvider = (model: string, baseUrl: string, apiKey?: string): LlmProvider => {
+  const request = async (body: Record<string, unknown>, signal?: AbortSignal): Promise<Response> => {
+    const response = await fetch(`${baseUrl.replace(/\/+$/, '')}/chat/completions`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        ...(apiKey ? { 'Authorization': `Bearer ${apiKey}` } : {})
+      },
+      body: JSON.stringify({ model, ...body }),
+      signal
+    });
+    if (!response.ok) {
+      const detail = await response.text().catch(() => '');
+      console.error("OpenAI-compatible request failed:", response.status, detail);
+      throw new Error(`Model endpoint returned ${response.status}.`);
+    }
+    return response;
+  };
+
+  const complete = async (body: Record<string, unknown>, signal?: AbortSignal): Promise<string> => {
+    const data = await (await request(body, signal)).json();
+    return data.choices?.[0]?.message?.content || '';
+  };
+
+  const chatMessages = ({ systemInstruction, messages }: LlmChatRequest) => [
+    { role: 'system', content: systemInstruction },
+    ...messages.map(m => ({ role: m.role, content: m.content }))
+  ];
+
+  return {
+    id: 'openai',
+    model,
+    generateJson: ({ systemInstruction, prompt, schema }: LlmJsonRequest) =>
+      complete({
+        messages: [
+          { role: 'system', content: systemInstruction },
+          { role: 'user', content: prompt }
+        ],
+        response_format: { type: 'json_schema', json_schema: { name: 'response', schema } }
+      }),
+    // Reads the server-sent event stream ("data: {...}" lines, ending with "data: [DONE]").
+    streamChat: async function* (chatRequest: LlmChatRequest) {
+      const response = await request({ messages: chatMessages(chatRequest), stream: true }, chatRequest.signal);
+      const reader = response.body!.pipeThrough(new TextDecoderStream()).getReader();
+      let buffer = '';
+      while (true) {
+        const { done, value } = await reader.read();
+        if (done) return;
+        buffer += value;
+        const lines = buffer.split('\n');
+        buffer = lines.pop() || '';
+        for (const line of lines) {
+          const data = line.replace(/^data:\s*/, '').trim();
+          if (!line.startsWith('data:') || !data) continue;
+          if (data === '[DONE]') return;
+          const delta = JSON.parse(data).choices?.[0]?.delta?.content;
+          if (delta) yield delta;
+        }
+      }
+    }
+  };
+};
@@ -0,0 +1,55 @@
+import { LlmProvider, LlmProviderId, LlmSettings } from "../types";
+import { createGeminiProvider } from "./llm/geminiProvider";
+import { createMockProvider } from "./llm/mockProvider";
+import { createOpenAiProvider } from "./llm/openAiProvider";
+
+const SETTINGS_STORAGE_KEY = 'gm-studio-llm-settings';
+
+export const LLM_PROVIDERS: Record<LlmProviderId, { label: string; defaultModel: string }> = {
+  gemini: { label: 'Google Gemini', defaultModel: 'gemini-3-flash-preview' },
+  openai: { label: 'OpenAI-compatible', defaultModel: 'gpt-4o-mini' },
+  mock: { label: 'Offline mock', defaultModel: 'mock-coach' }
+};
+
+export const DEFAULT_LLM_SETTINGS: LlmSettings = {
+  provider: 'gemini',
+  model: LLM_PROVIDERS.gemini.defaultModel,
+  baseUrl: 'http://localhost:11434/v1',
+  apiKey: ''
+};
+
+export const loadLlmSettings = (): LlmSettings => {
+  try {
+    const stored = localStorage.getItem(SETTINGS_STORAGE_KEY);
+    return stored ? { ...DEFAULT_LLM_SETTINGS, ...JSON.parse(stored) } : DEFAULT_LLM_SETTINGS;
+  } catch (error) {
+    console.error("Failed to read LLM settings:", error);
+    return DEFAULT_LLM_SETTINGS;
+  }
+};
+
+export const createProvider = (settings: LlmSettings): LlmProvider => {
+  const model = settings.model.trim() || LLM_PROVIDERS[settings.provider].defaultModel;
+  switch (settings.provider) {
+    case 'openai':
+      return createOpenAiProvider(model, settings.baseUrl, settings.apiKey || undefined);
+    case 'mock':
+      return createMockProvider(model);
+    default:
+      return createGeminiProvider(model, settings.apiKey || undefined);
+  }
+};
+
+let activeProvider: LlmProvider = createProvider(loadLlmSettings());
+
+export const getLlmProvider = (): LlmProvider => activeProvider;
+
+// Switches the provider used by the coach and remembers the choice.
+export const applyLlmSettings = (settings: LlmSettings) => {
+  activeProvider = createProvider(settings);
+  try {
+    localStorage.setItem(SETTINGS_STORAGE_KEY, JSON.stringify(settings));
+  } catch (error) {
+    console.error("Failed to save LLM settings:", error);
+  }
+};
@@ -0,0 +1,328 @@
+import { Chess, DEFAULT_POSITION, SEVEN_TAG_ROSTER } from "chess.js";
+import { LineMove, MoveTree, MoveTreeNode } from "../types";
+import { detectVariant, hasChess960Castling, isPlayableVariant, normalizeChess960Fen, playChess960Move, unsupportedVariantMessage } from "./variantService";
+
+export type MoveInput = string | { from: string; to: string; promotion?: string };
+
+const SUFFIX_NAGS: Record<string, number> = { '!': 1, '?': 2, '!!': 3, '??': 4, '!?': 5, '?!': 6 };
+const PGN_TOKEN_REGEX =
+  /\[\s*(\w+)\s+"((?:[^"\\]|\\.)*)"\s*\]|\{([^}]*)\}|;([^\n]*)|\$(\d+)|(\()|(\))|(1-0|0-1|1\/2-1\/2|\*)(?=\s|$)|(\d+\.+)|([^\s(){}[\];$]+)/g;
+
+let nextNodeId = 0;
+const newNodeId = () => `n${nextNodeId++}`;
+
+const cloneNode = (node: MoveTreeNode): MoveTreeNode => ({
+  ...node,
+  nags: node.nags && [...node.nags],
+  children: node.children.map(cloneNode)
+});
+
+const cloneTree = (tree: MoveTree): MoveTree => ({ headers: { ...tree.headers }, root: cloneNode(tree.root) });
+
+export const createMoveTree = (startFen: string = DEFAULT_POSITION, headers: Record<string, string> = {}): MoveTree => ({
+  headers,
+  root: { id: newNodeId(), san: '', fen: startFen, ply: -1, children: [] }
+});
+
+export const findNode = (tree: MoveTree, id: string): MoveTreeNode | undefined => {
+  const stack = [tree.root];
+  while (stack.length) {
+    const node = stack.pop()!;
+    if (node.id === id) return node;
+    stack.push(...node.children);
+  }
+  return undefined;
+};
+
+// Moves leading from the start position to the node, excluding the root.
+export const getNodePath = (tree: MoveTree, id: string): MoveTreeNode[] => {
+  const walk = (node: MoveTreeNode, path: MoveTreeNode[]): MoveTreeNode[] | null => {
+    if (node.id === id) return path;
+    for (const child of node.children) {
+      const found = walk(child, [...path, child]);
+      if (found) return found;
+    }
+    return null;
+  };
+  return walk(tree.root, []) || [];
+};
+
+export const getParentNode = (tree: MoveTree, id: string): MoveTreeNode | undefined => {
+  const path = getNodePath(tree, id);
+  return path.length > 1 ? path[path.length - 2] : path.length === 1 ? tree.root : undefined;
+};
+
+export const getMainLine = (tree: MoveTree): MoveTreeNode[] => {
+  const line: MoveTreeNode[] = [];
+  let node = tree.root;
+  while (node.children.length) {
+    node = node.children[0];
+    line.push(node);
+  }
+  return line;
+};
+
+// Last move of the line through the node, following the main continuation of each move after it.
+export const getLineEnd = (node: MoveTreeNode): MoveTreeNode => {
+  let end = node;
+  while (end.children.length) end = end.children[0];
+  return end;
+};
+
+// Plays a move from `fen`, with Chess960 castling when the position has such rights. Null when illegal.
+export const applyMove = (fen: string, move: MoveInput): LineMove | null => {
+  if (hasChess960Castling(fen)) return playChess960Move(fen, move);
+  try {
+    const chess = new Chess(fen);
+    const result = chess.move(move);
+    return { san: result.san, from: result.from, to: result.to, fen: result.after };
+  } catch (e) {
+    return null;
+  }
+};
+
+/**
+ * Plays a move after the given node. An existing continuation with the same
+ * SAN is reused; otherwise the move becomes the main continuation if the node
+ * had none, or a new side variation. Returns null for illegal moves.
+ */
+export const addMove = (tree: MoveTree, parentId: string, move: MoveInput): { tree: MoveTree; node: MoveTreeNode } | null => {
+  const parent = findNode(tree, parentId);
+  const played = parent && applyMove(parent.fen, move);
+  if (!parent || !played) return null;
+
+  const existing = parent.children.find(c => c.san === played.san);
+  if (existing) return { tree, node: existing };
+
+  const next = cloneTree(tree);
+  const node: MoveTreeNode = { id: newNodeId(), san: played.san, fen: played.fen, ply: parent.ply + 1, children: [] };
+  findNode(next, parentId)!.children.push(node);
+  return { tree: next, node };
+};
+
+// Plays SAN moves from `fen`, stopping at the first one that is not legal.
+export const replayLine = (fen: string, moves: string[]): LineMove[] => {
+  const line: LineMove[] = [];
+  let current = fen;
+  for (const san of moves) {
+    const move = applyMove(current, san.replace(/[!?]+$/, ''));
+    if (!move) break;
+    line.push(move);
+    current = move.fen;
+  }
+  return line;
+};
+
+// Adds a line after the node as a variation (or continuation), returning the tree and the last node.
+export const addLine = (tree: MoveTree, parentId: string, moves: string[]): { tree: MoveTree; node: MoveTreeNode } | null => {
+  let result: { tree: MoveTree; node: MoveTreeNode } | null = null;
+  for (const san of moves) {
+    const next = addMove(result?.tree || tree, result?.node.id || parentId, san);
+    if (!next) break;
+    result = next;
+  }
+  return result;
+};
+
+// Moves the variation containing the node one level up (swaps it with the line it branches from).
+export const promoteVariation = (tree: MoveTree, id: string): MoveTree => {
+  const next = cloneTree(tree);
+  const path = [next.root, ...getNodePath(next, id)];
+  for (let i = path.length - 1; i > 0; i--) {
+    const siblings = path[i - 1].children;
+    const idx = siblings.indexOf(path[i]);
+    if (idx > 0) {
+      siblings.splice(idx, 1);
+      siblings.unshift(path[i]);
+      return next;
+    }
+  }
+  return tree;
+};
+
+/**
+ * Removes the side variation containing the node, from the move where it
+ * branches off. On the main line, removes the node and everything after it.
+ */
+export const deleteVariation = (tree: MoveTree, id: string): MoveTree => {
+  const next = cloneTree(tree);
+  const path = [next.root, ...getNodePath(next, id)];
+  if (path.length < 2) return tree;
+  let i = path.length - 1;
+  while (i > 1 && path[i - 1].children.indexOf(path[i]) === 0) i--;
+  if (path[i - 1].children.indexOf(path[i]) === 0) i = path.length - 1;
+  path[i - 1].children = path[i - 1].children.filter(c => c !== path[i]);
+  return next;
+};
+
+const appendComment = (node: MoveTreeNode, comment: string) => {
+  const text = comment.trim();
+  if (!text) return;
+  node.comment = node.comment ? `${node.comment} ${text}` : text;
+};
+
+/**
+ * Parses a single PGN game, including comments, NAGs and nested RAV
+ * variations, into a move tree. Throws on illegal moves and on variants
+ * with rules other than standard chess.
+ */
+export const parsePgnToTree = (pgn: string): MoveTree => {
+  const headers: Record<string, string> = {};
+  const tokens = Array.from(pgn.matchAll(PGN_TOKEN_REGEX));
+  tokens.forEach(t => {
+    if (t[1]) headers[t[1]] = t[2].replace(/\\(.)/g, '$1');
+  });
+
+  const variant = detectVariant(headers);
+  if (!isPlayableVariant(variant)) throw new Error(unsupportedVariantMessage(variant, headers.Variant));
+  const startFen = headers.FEN || DEFAULT_POSITION;
+  const tree = createMoveTree(variant === 'chess960' ? normalizeChess960Fen(startFen) : startFen, headers);
+  let parent = tree.root;
+  let current = tree.root;
+  let pendingComment = '';
+  const stack: { parent: MoveTreeNode; current: MoveTreeNode }[] = [];
+
+  for (const t of tokens) {
+    const [, header, , braceComment, lineComment, nag, open, close, result, , sanToken] = t;
+    if (header) continue;
+    if (braceComment !== undefined || lineComment !== undefined) {
+      const text = braceComment ?? lineComment;
+      if (current === parent && stack.length) pendingComment += text;
+      else appendComment(current, text);
+    } else if (nag) {
+      if (current !== tree.root) current.nags = [...(current.nags || []), parseInt(nag, 10)];
+    } else if (open) {
+      stack.push({ parent, current });
+      current = parent;
+    } else if (close) {
+      const frame = stack.pop();
+      if (frame) ({ parent, current } = frame);
+    } else if (result) {
+      if (!headers.Result) headers.Result = result;
+    } else if (sanToken) {
+      const suffix = sanToken.match(/[!?]+$/)?.[0];
+      const san = (suffix ? sanToken.slice(0, -suffix.length) : sanToken).replace(/^0-0(-0)?/, m => m.replace(/0/g, 'O'));
+      const played = applyMove(current.fen, san);
+      if (!played) {
+        throw new Error(`Illegal move "${sanToken}" after ${current.ply < 0 ? 'the start position' : `${current.san} (ply ${current.ply})`}.`);
+      }
+      let target = current.children.find(c => c.san === played.san);
+      if (!target) {
+        target = { id: newNodeId(), san: played.san, fen: played.fen, ply: current.ply + 1, children: [] };
+        current.children.push(target);
+      }
+      if (suffix && SUFFIX_NAGS[suffix]) target.nags = [...(target.nags || []), SUFFIX_NAGS[suffix]];
+      if (pendingComment) {
+        appendComment(target, pendingComment);
+        pendingComment = '';
+      }
+      parent = current;
+      current = target;
+    }
+  }
+  return tree;
+};
+
+const escapeComment = (comment: string) => comment.replace(/}/g, ')');
+
+// Move number of the move that led to `fenAfter`, e.g. "12." for White or "12..." for Black.
+export const moveNumberLabel = (fenAfter: string): string => {
+  const [, turn, , , , fullMove] = fenAfter.split(' ');
+  return turn === 'b' ? `${fullMove}.` : `${parseInt(fullMove, 10) - 1}...`;
+};
+
+const moveNumberPrefix = (parentFen: string, forceNumber: boolean): string => {
+  const [, turn, , , , fullMove] = parentFen.split(' ');
+  if (turn === 'w') return `${fullMove}. `;
+  return forceNumber ? `${fullMove}... ` : '';
+};
+
+// Line in move-number notation, e.g. "23. Nf5 Qg4 24. h4" or "23... Qg4".
+export const formatLine = (fen: string, moves: string[]): string => {
+  let parentFen = fen;
+  return replayLine(fen, moves).map((move, i) => {
+    const text = `${moveNumberPrefix(parentFen, i === 0)}${move.san}`;
+    parentFen = move.fen;
+    return text;
+  }).join(' ');
+};
+
+// Greedy word wrap, never breaking inside a token.
+const wrapPgnText = (tokens: string[], maxWidth = 80): string => {
+  const lines: string[] = [];
+  let line = '';
+  tokens.forEach(token => {
+    if (line && line.length + token.length + 1 > maxWidth) {
+      lines.push(line);
+      line = token;
+    } else {
+      line = line ? `${line} ${token}` : token;
+    }
+  });
+  if (line) lines.push(line);
+  return lines.join('\n');
+};
+
+export interface PgnExportOptions {
+  variations?: boolean;
+  comments?: boolean;
+}
+
+export const treeToPgn = (tree: MoveTree, options: PgnExportOptions = {}): string => {
+  const { variations = true, comments = true } = options;
+  const headers: Record<string, string> = { ...SEVEN_TAG_ROSTER, ...tree.headers };
+  delete headers.SetUp;
+  delete headers.FEN;
+  if (tree.root.fen !== DEFAULT_POSITION) {
+    headers.SetUp = '1';
+    headers.FEN = tree.root.fen;
+  }
+  if (hasChess960Castling(tree.root.fen) && !headers.Variant) headers.Variant = 'Chess960';
+  const headerText = Object.entries(headers)
+    .map(([key, value]) => `[${key} "${value.replace(/\\/g, '\\\\').replace(/"/g, '\\"')}"]`)
+    .join('\n');
+
+  const tokens: string[] = [];
+  const pushMove = (node: MoveTreeNode, parentFen: string, forceNumber: boolean): boolean => {
+    tokens.push(`${moveNumberPrefix(parentFen, forceNumber)}${node.san}`);
+    node.nags?.forEach(nag => tokens.push(`$${nag}`));
+    if (comments && node.comment) {
+      tokens.push(`{${escapeComment(node.comment)}}`);
+      return true;
+    }
+    return false;
+  };
+
+  // Writes the line continuing from `from`, with side variations after each main move.
+  const writeLine = (from: MoveTreeNode, forceNumber: boolean) => {
+    let node = from;
+    let force = forceNumber;
+    while (node.children.length) {
+      const [main, ...sideLines] = node.children;
+      force = pushMove(main, node.fen, force);
+      if (variations) {
+        sideLines.forEach(side => {
+          tokens.push('(');
+          const afterComment = pushMove(side, node.fen, true);
+          writeLine(side, afterComment);
+          tokens.push(')');
+          force = true;
+        });
+      }
+      node = main;
+    }
+  };
+
+  if (comments && tree.root.comment) tokens.push(`{${escapeComment(tree.root.comment)}}`);
+  writeLine(tree.root, true);
+  tokens.push(headers.Result || '*');
+
+  // RAV parentheses hug their first and last tokens: "( 5... Nc6 )" becomes "(5... Nc6)".
+  const joined: string[] = [];
+  tokens.forEach(token => {
+    if (joined.length && joined[joined.length - 1] === '(') joined[joined.length - 1] = `(${token}`;
+    else if (token === ')' && joined.length) joined[joined.length - 1] += ')';
+    else joined.push(token);
+  });
+  return `${headerText}\n\n${wrapPgnText(joined)}`;
+};
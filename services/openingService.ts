@@ -0,0 +1,66 @@
+import { Chess, DEFAULT_POSITION } from "chess.js";
+import { BookMove, EcoOpening, OpeningClassification } from "../types";
+import { ECO_LINES } from "./openings/ecoData";
+
+interface BookPosition {
+  opening?: EcoOpening; // set when a named line ends here
+  next: Map<string, EcoOpening>; // book continuations, each with the shortest line through it
+}
+
+// Move counters are dropped so transpositions land on the same position.
+const positionKey = (fen: string) => fen.split(' ').slice(0, 4).join(' ');
+
+let book: Map<string, BookPosition> | null = null;
+
+// Replays every line once, on first use, into a position -> book entry index.
+const getBook = (): Map<string, BookPosition> => {
+  if (book) return book;
+  book = new Map();
+  const entry = (fen: string) => {
+    const key = positionKey(fen);
+    if (!book!.has(key)) book!.set(key, { next: new Map() });
+    return book!.get(key)!;
+  };
+  for (const [eco, name, line] of ECO_LINES) {
+    const opening: EcoOpening = { eco, name, moves: line.split(' ') };
+    const chess = new Chess();
+    try {
+      for (const san of opening.moves) {
+        const from = entry(chess.fen());
+        const played = chess.move(san).san;
+        const known = from.next.get(played);
+        if (!known || known.moves.length > opening.moves.length) from.next.set(played, opening);
+      }
+      entry(chess.fen()).opening = opening;
+    } catch (e) {
+      console.error(`Skipping invalid ECO line ${eco} ${name}:`, e);
+    }
+  }
+  return book;
+};
+
+/**
+ * Classifies a game by the positions it reaches, so transposed move orders
+ * are recognised even when they pass through positions the book lacks.
+ * `fens` holds the position after each ply; theory ends after the last book
+ * position. Games from a set-up position have no book and return null.
+ */
+export const classifyOpening = (fens: string[], startFen: string = DEFAULT_POSITION): OpeningClassification | null => {
+  if (positionKey(startFen) !== positionKey(DEFAULT_POSITION)) return null;
+  const positions = getBook();
+  let opening: EcoOpening | null = null;
+  let bookPlies = 0;
+  fens.forEach((fen, ply) => {
+    const position = positions.get(positionKey(fen));
+    if (!position) return;
+    bookPlies = ply + 1;
+    opening = position.opening || opening;
+  });
+  return { opening, bookPlies, leftTheoryAt: bookPlies < fens.length ? bookPlies : null };
+};
+
+// Known continuations from a position, for the opening explorer.
+export const getBookMoves = (fen: string): BookMove[] => {
+  const position = getBook().get(positionKey(fen));
+  return position ? [...position.next].map(([san, opening]) => ({ san, opening })) : [];
+};
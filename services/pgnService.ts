@@ -0,0 +1,130 @@
+import { AnalysisPhase, FullAnalysis, MoveClassification, MoveTree, PgnDatabaseGame, PlayerColor } from "../types";
+import { getMainLine, parsePgnToTree, treeToPgn } from "./moveTree";
+
+const HEADER_LINE_REGEX = /^\s*\[\s*\w+\s+"/;
+
+/**
+ * Splits a PGN database into the text of its individual games. A new game
+ * starts at the first tag pair that follows movetext.
+ */
+export const splitPgnGames = (text: string): string[] => {
+  const games: string[] = [];
+  let current: string[] = [];
+  let seenMoves = false;
+  let inComment = false;
+
+  text.replace(/\r\n?/g, '\n').split('\n').forEach(line => {
+    const isHeader = !inComment && HEADER_LINE_REGEX.test(line);
+    if (isHeader && seenMoves) {
+      games.push(current.join('\n'));
+      current = [];
+      seenMoves = false;
+    }
+    current.push(line);
+    if (!isHeader && line.trim()) seenMoves = true;
+    // Track multi-line {comments} so a "[" inside them isn't mistaken for a header.
+    for (const char of line) {
+      if (char === '{') inComment = true;
+      else if (char === '}') inComment = false;
+    }
+  });
+  if (current.some(line => line.trim())) games.push(current.join('\n'));
+  return games.map(g => g.trim()).filter(Boolean);
+};
+
+// Tag pairs of a PGN game without parsing its moves, e.g. to describe a game that failed to parse.
+export const readPgnHeaders = (pgn: string): Record<string, string> => {
+  const headers: Record<string, string> = {};
+  for (const match of pgn.matchAll(/\[\s*(\w+)\s+"((?:[^"\\]|\\.)*)"\s*\]/g)) headers[match[1]] = match[2].replace(/\\(.)/g, '$1');
+  return headers;
+};
+
+// Parses every game independently so one broken game doesn't reject the whole file.
+export const parsePgnDatabase = (text: string): PgnDatabaseGame[] =>
+  splitPgnGames(text).map((pgn, index) => {
+    try {
+      const tree = parsePgnToTree(pgn);
+      return { index, headers: tree.headers, pgn, plyCount: getMainLine(tree).length };
+    } catch (error: any) {
+      return { index, headers: readPgnHeaders(pgn), pgn, plyCount: 0, error: error?.message || 'Could not parse game.' };
+    }
+  });
+
+const CLASSIFICATION_NAGS: Record<MoveClassification, number> = {
+  good: 1,
+  mistake: 2,
+  brilliant: 3,
+  blunder: 4,
+  inaccuracy: 6
+};
+const MOVE_QUALITY_NAGS = [1, 2, 3, 4, 5, 6];
+
+const sentence = (text: string) => (/[.!?]$/.test(text.trim()) ? text.trim() : `${text.trim()}.`);
+const phaseSummary = (title: string, phase: AnalysisPhase) => `${title} (${phase.score}%): ${sentence(phase.feedback)}`;
+
+/**
+ * Writes the game as PGN with the coach's feedback embedded: a summary
+ * comment before the first move, per-move comments and move-quality NAGs
+ * from the annotations, and all side variations of the tree.
+ */
+export const buildAnnotatedPgn = (tree: MoveTree, analysis: FullAnalysis | null): string => {
+  if (!analysis) return treeToPgn(tree);
+
+  const annotated: MoveTree = structuredClone(tree);
+  annotated.headers.Annotator = 'GM Studio';
+  annotated.root.comment = [
+    annotated.root.comment,
+    phaseSummary('Opening', analysis.opening),
+    phaseSummary('Middlegame', analysis.middlegame),
+    phaseSummary('Tactics', analysis.tactics),
+    phaseSummary('Endgame', analysis.endgame),
+    `Overall: ${sentence(analysis.overallAdvice)}`,
+    analysis.referencedBooks.length ? `Study: ${analysis.referencedBooks.join('; ')}` : ''
+  ].filter(Boolean).join(' ');
+
+  const mainLine = getMainLine(annotated);
+  analysis.moveAnnotations.forEach(annotation => {
+    const node = mainLine[annotation.ply];
+    if (!node || node.san !== annotation.san) return;
+    node.nags = [...(node.nags || []).filter(n => !MOVE_QUALITY_NAGS.includes(n)), CLASSIFICATION_NAGS[annotation.classification]];
+    const coachComment = annotation.betterMove
+      ? `${annotation.comment} Better was ${annotation.betterMove}.`
+      : annotation.comment;
+    node.comment = node.comment ? `${node.comment} ${coachComment}` : coachComment;
+  });
+
+  return treeToPgn(annotated);
+};
+
+export const pgnFileName = (headers: Record<string, string>): string => {
+  const parts = [headers.White, headers.Black, headers.Date]
+    .filter(p => p && !p.includes('?'))
+    .map(p => p.replace(/[^\w.-]+/g, '_'));
+  return `${parts.length ? parts.join('_') : 'game'}.pgn`;
+};
+
+// The side `username` played, matched case-insensitively against the White and Black headers.
+export const playerColor = (headers: Record<string, string>, username: string): PlayerColor | null => {
+  const name = username.trim().toLowerCase();
+  if (!name) return null;
+  if ((headers.White || '').toLowerCase() === name) return 'white';
+  if ((headers.Black || '').toLowerCase() === name) return 'black';
+  return null;
+};
+
+// Rating of one side from the WhiteElo/BlackElo headers; undefined when missing or "?".
+export const playerRating = (headers: Record<string, string>, color: PlayerColor): number | undefined => {
+  const rating = parseInt(headers[color === 'white' ? 'WhiteElo' : 'BlackElo'] || '', 10);
+  return rating > 0 ? rating : undefined;
+};
+
+const IDENTITY_HEADERS = ['Site', 'Link', 'Event', 'Date', 'Round', 'White', 'Black'];
+
+/**
+ * Stable identity for a game: its identifying headers when it has enough of
+ * them (so re-importing finds the same game), otherwise the tree's own root.
+ */
+export const getGameKey = (tree: MoveTree): string => {
+  const identity = IDENTITY_HEADERS.map(h => tree.headers[h]).filter(v => v && !v.includes('?'));
+  return identity.length >= 2 ? `pgn:${identity.join('|')}|${tree.root.fen}` : `tree:${tree.root.id}`;
+};
@@ -0,0 +1,59 @@
+import { Chess } from "chess.js";
+import { ChessEngine, PlayResult, PlayStrength } from "../types";
+import { chooseCoachMove } from "./coachService";
+import { legalSanIn } from "./coachValidation";
+import { createChess } from "./variantService";
+
+export const PLAY_STRENGTHS: Record<PlayStrength, { label: string; depth: number; randomMoveRate: number }> = {
+  beginner: { label: 'Beginner', depth: 1, randomMoveRate: 0.3 },
+  casual: { label: 'Casual', depth: 2, randomMoveRate: 0.1 },
+  club: { label: 'Club', depth: 3, randomMoveRate: 0 },
+  strong: { label: 'Strong', depth: 4, randomMoveRate: 0 }
+};
+
+// Replays a play-out from its start position, so repetitions count moves before the current position too.
+export const replayPlayOut = (startFen: string, moves: string[]): Chess => {
+  const chess = createChess(startFen);
+  moves.forEach(move => chess.move(move));
+  return chess;
+};
+
+export const getPlayResult = (chess: Chess): PlayResult | null => {
+  if (chess.isCheckmate()) return { result: chess.turn() === 'w' ? '0-1' : '1-0', reason: 'checkmate' };
+  if (chess.isStalemate()) return { result: '1/2-1/2', reason: 'stalemate' };
+  if (chess.isInsufficientMaterial()) return { result: '1/2-1/2', reason: 'insufficient material' };
+  if (chess.isThreefoldRepetition()) return { result: '1/2-1/2', reason: 'threefold repetition' };
+  if (chess.isDrawByFiftyMoves()) return { result: '1/2-1/2', reason: 'fifty-move rule' };
+  return null;
+};
+
+export interface OpponentMove {
+  san: string;
+  source: 'engine' | 'coach';
+}
+
+/**
+ * Picks the opponent's reply: the engine's best move at the strength's depth
+ * (or, at low strengths, sometimes a random legal move), falling back to the
+ * coach when there is no engine or the search fails.
+ */
+export const chooseOpponentMove = async (
+  engine: ChessEngine | null,
+  chess: Chess,
+  strength: PlayStrength,
+  random: () => number = Math.random
+): Promise<OpponentMove> => {
+  const fen = chess.fen();
+  const { label, depth, randomMoveRate } = PLAY_STRENGTHS[strength];
+  if (engine) {
+    try {
+      const moves = chess.moves();
+      if (random() < randomMoveRate) return { san: moves[Math.floor(random() * moves.length)], source: 'engine' };
+      const san = legalSanIn(fen, (await engine.evaluate(fen, { depth })).bestLine[0]);
+      if (san) return { san, source: 'engine' };
+    } catch (error) {
+      console.warn("Engine move failed, asking the coach instead:", error);
+    }
+  }
+  return { san: await chooseCoachMove(fen, label, chess.history()), source: 'coach' };
+};
@@ -0,0 +1,102 @@
+import { EngineEvaluation, FullAnalysis, Puzzle, PuzzleResult, PuzzleReview } from "../types";
+import { legalSanIn } from "./coachValidation";
+import { getMainLine, parsePgnToTree } from "./moveTree";
+import { playerColor } from "./pgnService";
+
+const PUZZLES_STORAGE_KEY = 'gm-studio-puzzles';
+const DAY_MS = 24 * 60 * 60 * 1000;
+// Failed puzzles come back within the same session.
+const RETRY_DELAY_MS = 10 * 60 * 1000;
+const MIN_EASE = 1.3;
+
+export interface PuzzleSourceGame {
+  id: string; // library/game key, so puzzles from the same game are not added twice
+  pgn: string;
+  analysis: FullAnalysis | null;
+  evaluations?: Record<string, EngineEvaluation>; // keyed by FEN; best lines override the coach's suggestion
+}
+
+export const loadPuzzles = (): Puzzle[] => {
+  try {
+    const stored = localStorage.getItem(PUZZLES_STORAGE_KEY);
+    return stored ? JSON.parse(stored) : [];
+  } catch (error) {
+    console.error("Failed to read puzzles:", error);
+    return [];
+  }
+};
+
+export const savePuzzles = (puzzles: Puzzle[]) => {
+  try {
+    localStorage.setItem(PUZZLES_STORAGE_KEY, JSON.stringify(puzzles));
+  } catch (error) {
+    console.error("Failed to save puzzles:", error);
+    throw new Error("Could not save puzzle progress.");
+  }
+};
+
+/**
+ * Turns the mistakes and blunders of an analysed game into puzzles. When
+ * `playerName` played in the game, only their own errors are used. Errors
+ * without a legal better move (engine best line, else the coach's
+ * suggestion) are skipped.
+ */
+export const puzzlesFromGame = (game: PuzzleSourceGame, playerName = '', now = Date.now()): Puzzle[] => {
+  if (!game.analysis) return [];
+  const tree = parsePgnToTree(game.pgn);
+  const fens = [tree.root.fen, ...getMainLine(tree).map(n => n.fen)];
+  const color = playerColor(tree.headers, playerName);
+
+  return game.analysis.moveAnnotations.flatMap(annotation => {
+    if (annotation.classification !== 'mistake' && annotation.classification !== 'blunder') return [];
+    const fen = fens[annotation.ply];
+    if (!fen || fens[annotation.ply + 1] === undefined) return [];
+    if (color && fen.split(' ')[1] !== color[0]) return [];
+    const solution = legalSanIn(fen, game.evaluations?.[fen]?.bestLine[0]) || legalSanIn(fen, annotation.betterMove);
+    if (!solution || solution === annotation.san) return [];
+    return [{
+      id: `${game.id}#${annotation.ply}`,
+      gameId: game.id,
+      ply: annotation.ply,
+      fen,
+      solution,
+      playedSan: annotation.san,
+      classification: annotation.classification,
+      comment: annotation.comment,
+      white: tree.headers.White || 'White',
+      black: tree.headers.Black || 'Black',
+      createdAt: now,
+      review: { dueAt: now, intervalDays: 0, ease: 2.5, lapses: 0 }
+    }];
+  });
+};
+
+// Adds new puzzles, keeping the review history of ones already collected.
+export const mergePuzzles = (existing: Puzzle[], incoming: Puzzle[]): { puzzles: Puzzle[]; added: number } => {
+  const known = new Set(existing.map(p => p.id));
+  const fresh = incoming.filter(p => !known.has(p.id) && known.add(p.id));
+  return { puzzles: [...existing, ...fresh], added: fresh.length };
+};
+
+export const getDuePuzzles = (puzzles: Puzzle[], now = Date.now()): Puzzle[] =>
+  puzzles.filter(p => p.review.dueAt <= now).sort((a, b) => a.review.dueAt - b.review.dueAt);
+
+/**
+ * Schedules the next review, SM-2 style: an unaided solve stretches the
+ * interval by the ease factor, a solve with help keeps it, and a reveal
+ * resets it and brings the puzzle back shortly.
+ */
+export const reviewPuzzle = (puzzle: Puzzle, result: PuzzleResult, now = Date.now()): Puzzle => {
+  const { intervalDays, ease, lapses } = puzzle.review;
+  let review: PuzzleReview;
+  if (result === 'failed') {
+    review = { dueAt: now + RETRY_DELAY_MS, intervalDays: 0, ease: Math.max(MIN_EASE, ease - 0.2), lapses: lapses + 1, lastResult: result };
+  } else if (result === 'hinted') {
+    const next = Math.max(1, intervalDays);
+    review = { dueAt: now + next * DAY_MS, intervalDays: next, ease: Math.max(MIN_EASE, ease - 0.15), lapses, lastResult: result };
+  } else {
+    const next = intervalDays ? Math.round(intervalDays * ease) : 1;
+    review = { dueAt: now + next * DAY_MS, intervalDays: next, ease: ease + 0.1, lapses, lastResult: result };
+  }
+  return { ...puzzle, review };
+};
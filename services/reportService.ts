@@ -0,0 +1,153 @@
+import { GamePhase, PlayerGameAnalysis, PlayerReport, ResultStats } from "../types";
+import { analyzeGame, generateTrainingPlan } from "./coachService";
+import { parsePgnDatabase, playerColor, playerRating } from "./pgnService";
+
+const PHASES: GamePhase[] = ['opening', 'middlegame', 'tactics', 'endgame'];
+const MAX_ERROR_NOTES = 60;
+const MAX_LOSING_OPENINGS = 5;
+
+const RESULT_SCORES: Record<string, number> = { '1-0': 1, '0-1': 0, '1/2-1/2': 0.5 };
+
+// Whether the move at `ply` was played by the reported player (games may start with Black to move).
+const isPlayerMove = (game: PlayerGameAnalysis, ply: number) => {
+  const whiteStarts = (game.headers.FEN || '').split(' ')[1] !== 'b';
+  const whiteMoved = (ply % 2 === 0) === whiteStarts;
+  return whiteMoved === (game.color === 'white');
+};
+
+// Lichess speed categories, from the estimated game duration (base + 40 increments).
+const timeControlLabel = (timeControl?: string): string => {
+  if (!timeControl || timeControl === '-') return 'Correspondence';
+  const [base, increment = '0'] = timeControl.split('+');
+  const estimate = parseInt(base, 10) + 40 * parseInt(increment, 10);
+  if (isNaN(estimate)) return 'Unknown';
+  if (estimate < 30) return 'UltraBullet';
+  if (estimate < 180) return 'Bullet';
+  if (estimate < 480) return 'Blitz';
+  if (estimate < 1500) return 'Rapid';
+  return 'Classical';
+};
+
+// Opening family, e.g. "Sicilian Defense" for "Sicilian Defense: Najdorf Variation".
+const openingLabel = (headers: Record<string, string>) =>
+  (headers.Opening || '').split(':')[0].trim() || headers.ECO || 'Unknown opening';
+
+const tally = (games: PlayerGameAnalysis[], labelOf: (game: PlayerGameAnalysis) => string): ResultStats[] => {
+  const stats = new Map<string, ResultStats>();
+  games.forEach(game => {
+    const label = labelOf(game);
+    const entry = stats.get(label) || { label, games: 0, wins: 0, draws: 0, losses: 0 };
+    entry.games++;
+    if (game.score === 1) entry.wins++;
+    else if (game.score === 0) entry.losses++;
+    else entry.draws++;
+    stats.set(label, entry);
+  });
+  return Array.from(stats.values()).sort((a, b) => b.games - a.games);
+};
+
+export interface PlayerAnalysisOptions {
+  batchSize?: number; // games analysed in parallel
+  signal?: AbortSignal;
+  onProgress?: (done: number, total: number) => void;
+}
+
+/**
+ * Analyzes the finished games of `username` found in a PGN export, a batch at
+ * a time. Games the coach fails on are skipped. When cancelled, stops after
+ * the running batch and resolves with the games finished so far.
+ */
+export const analyzePlayerGames = async (
+  username: string,
+  pgnText: string,
+  { batchSize = 3, signal, onProgress }: PlayerAnalysisOptions = {}
+): Promise<PlayerGameAnalysis[]> => {
+  const games = parsePgnDatabase(pgnText)
+    .filter(g => !g.error && g.plyCount > 0 && g.headers.Result in RESULT_SCORES)
+    .map(g => ({ ...g, color: playerColor(g.headers, username) }))
+    .filter(g => g.color !== null);
+
+  const results: PlayerGameAnalysis[] = [];
+  onProgress?.(0, games.length);
+  for (let i = 0; i < games.length && !signal?.aborted; i += batchSize) {
+    const batch = games.slice(i, i + batchSize);
+    const outcomes = await Promise.allSettled(batch.map(g =>
+      analyzeGame(g.pgn, {}, { perspective: { color: g.color!, rating: playerRating(g.headers, g.color!) } })
+    ));
+    outcomes.forEach((outcome, j) => {
+      const { headers, color } = batch[j];
+      const score = RESULT_SCORES[headers.Result];
+      if (outcome.status === 'fulfilled') {
+        results.push({ headers, color: color!, score: color === 'white' ? score : 1 - score, analysis: outcome.value.analysis });
+      } else {
+        console.error("Skipping game in player report:", outcome.reason);
+      }
+    });
+    onProgress?.(Math.min(i + batchSize, games.length), games.length);
+  }
+  return results;
+};
+
+const formatStats = (stats: ResultStats[]) =>
+  stats.map(s => `${s.label}: ${s.games} games, +${s.wins} =${s.draws} -${s.losses}`).join('; ');
+
+/**
+ * Combines per-game analyses into trends (phase scores, error rates, results
+ * by opening, color and time control) and asks the coach for a training plan.
+ */
+export const buildPlayerReport = async (username: string, games: PlayerGameAnalysis[]): Promise<PlayerReport> => {
+  if (games.length === 0) throw new Error("No analysed games to build a report from.");
+
+  const phaseAverages = Object.fromEntries(PHASES.map(phase => [
+    phase,
+    Math.round(games.reduce((sum, g) => sum + g.analysis[phase].score, 0) / games.length)
+  ])) as Record<GamePhase, number>;
+  const weakestPhase = PHASES.reduce((weakest, phase) => (phaseAverages[phase] < phaseAverages[weakest] ? phase : weakest));
+
+  const moveErrors = { inaccuracy: 0, mistake: 0, blunder: 0 };
+  const errorNotes: string[] = [];
+  games.forEach(game => {
+    game.analysis.tactics.errors.forEach(e => errorNotes.push(`Tactics: ${e}`));
+    game.analysis.moveAnnotations
+      .filter(a => isPlayerMove(game, a.ply))
+      .forEach(a => {
+        if (a.classification === 'inaccuracy' || a.classification === 'mistake' || a.classification === 'blunder') {
+          moveErrors[a.classification]++;
+          if (a.classification !== 'inaccuracy') errorNotes.push(`${a.san} (${a.classification}): ${a.comment}`);
+        }
+      });
+  });
+  (Object.keys(moveErrors) as (keyof typeof moveErrors)[]).forEach(key => {
+    moveErrors[key] = Math.round((moveErrors[key] / games.length) * 10) / 10;
+  });
+
+  const losingOpenings = tally(games, g => openingLabel(g.headers))
+    .filter(s => s.losses > 0)
+    .sort((a, b) => b.losses - a.losses || b.losses / b.games - a.losses / a.games)
+    .slice(0, MAX_LOSING_OPENINGS);
+  const byColor = tally(games, g => (g.color === 'white' ? 'White' : 'Black'));
+  const byTimeControl = tally(games, g => timeControlLabel(g.headers.TimeControl));
+
+  const summary = [
+    `Player: ${username}, ${games.length} games analysed.`,
+    `Average phase scores: ${PHASES.map(p => `${p} ${phaseAverages[p]}`).join(', ')} (weakest: ${weakestPhase}).`,
+    `Errors per game: ${moveErrors.inaccuracy} inaccuracies, ${moveErrors.mistake} mistakes, ${moveErrors.blunder} blunders.`,
+    `Openings with most losses: ${formatStats(losingOpenings) || 'none'}.`,
+    `Results by color: ${formatStats(byColor)}.`,
+    `Results by time control: ${formatStats(byTimeControl)}.`,
+    'Error notes from the analyses:',
+    ...errorNotes.slice(0, MAX_ERROR_NOTES)
+  ].join('\n');
+
+  return {
+    username,
+    gamesAnalyzed: games.length,
+    phaseAverages,
+    weakestPhase,
+    moveErrors,
+    losingOpenings,
+    byColor,
+    byTimeControl,
+    ...(await generateTrainingPlan(summary))
+  };
+};
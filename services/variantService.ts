@@ -0,0 +1,232 @@
+import { Chess, Square } from "chess.js";
+import { GameVariant, LineMove } from "../types";
+import { PiecePlacement, buildFen, parseFen } from "./fenService";
+import type { MoveInput } from "./moveTree";
+
+export const VARIANT_LABELS: Record<GameVariant, string> = {
+  standard: 'Standard',
+  chess960: 'Chess960',
+  fromPosition: 'From Position',
+  crazyhouse: 'Crazyhouse',
+  atomic: 'Atomic',
+  antichess: 'Antichess',
+  kingOfTheHill: 'King of the Hill',
+  threeCheck: 'Three-check',
+  horde: 'Horde',
+  racingKings: 'Racing Kings',
+  bughouse: 'Bughouse',
+  other: 'Unknown variant'
+};
+
+// Variants played with the normal rules of chess, so the board, engine and coach can handle them.
+const PLAYABLE_VARIANTS: GameVariant[] = ['standard', 'chess960', 'fromPosition'];
+
+// Lichess keys, Chess.com rules and PGN Variant headers, lower-cased without spaces or punctuation.
+const VARIANT_NAMES: Record<string, GameVariant> = {
+  standard: 'standard',
+  chess: 'standard',
+  normal: 'standard',
+  chess960: 'chess960',
+  fischerandom: 'chess960',
+  fischerrandom: 'chess960',
+  fromposition: 'fromPosition',
+  crazyhouse: 'crazyhouse',
+  atomic: 'atomic',
+  antichess: 'antichess',
+  giveaway: 'antichess',
+  suicide: 'antichess',
+  kingofthehill: 'kingOfTheHill',
+  threecheck: 'threeCheck',
+  '3check': 'threeCheck',
+  horde: 'horde',
+  racingkings: 'racingKings',
+  bughouse: 'bughouse'
+};
+
+const variantFromName = (name?: string): GameVariant | null => {
+  const key = (name || '').toLowerCase().replace(/[^a-z0-9]/g, '');
+  return key ? VARIANT_NAMES[key] || 'other' : null;
+};
+
+/**
+ * Variant of a game from its PGN Variant header, else from the variant the
+ * game list reported for it. Defaults to standard.
+ */
+export const detectVariant = (headers: Record<string, string>, listedVariant?: string): GameVariant =>
+  variantFromName(headers.Variant) || variantFromName(listedVariant) || 'standard';
+
+export const isPlayableVariant = (variant: GameVariant): boolean => PLAYABLE_VARIANTS.includes(variant);
+
+export const unsupportedVariantMessage = (variant: GameVariant, name?: string): string =>
+  `${variant === 'other' && name ? name : VARIANT_LABELS[variant]} games are not supported: only standard chess, Chess960 and games from a set-up position can be loaded.`;
+
+const FILES = 'abcdefgh';
+const fileIndex = (square: string) => FILES.indexOf(square[0]);
+const toSquare = (file: string, rank: string) => `${file}${rank}` as Square;
+const SHREDDER_CASTLING_REGEX = /[A-Ha-h]/;
+
+const castlingField = (fen: string) => fen.split(' ')[2] || '-';
+const withCastling = (fen: string, castling: string) => {
+  const fields = fen.split(' ');
+  fields[2] = castling || '-';
+  return fields.join(' ');
+};
+
+const kingSquare = (pieces: PiecePlacement, color: 'w' | 'b') =>
+  Object.keys(pieces).find(square => pieces[square] === `${color}K`);
+
+/**
+ * Castling rights as the squares of the rooks that may still castle. Reads
+ * Shredder-FEN file letters ("HAha") and X-FEN "KQkq", where K and Q mean
+ * the outermost rook on that side of the king.
+ */
+const castlingRooks = (fen: string): Square[] => {
+  const { pieces } = parseFen(fen);
+  const rooks: Square[] = [];
+  for (const char of castlingField(fen).replace('-', '')) {
+    const color = char === char.toUpperCase() ? 'w' : 'b';
+    const rank = color === 'w' ? '1' : '8';
+    const king = kingSquare(pieces, color);
+    if (!king || king[1] !== rank) continue;
+    let rook: Square | undefined;
+    if (/[KQkq]/.test(char)) {
+      const files = /[Kk]/.test(char) ? [...FILES].reverse() : [...FILES];
+      rook = files.map(f => toSquare(f, rank)).find(sq => pieces[sq] === `${color}R`);
+      if (rook && (fileIndex(rook) > fileIndex(king)) !== /[Kk]/.test(char)) rook = undefined;
+    } else if (pieces[toSquare(char.toLowerCase(), rank)] === `${color}R`) {
+      rook = toSquare(char.toLowerCase(), rank);
+    }
+    if (rook && !rooks.includes(rook)) rooks.push(rook);
+  }
+  return rooks;
+};
+
+// Whether a right is the one of standard chess: king on e1/e8, rook on the a- or h-file.
+const isStandardRight = (pieces: PiecePlacement, rook: string) =>
+  pieces[`e${rook[1]}`]?.[1] === 'K' && (rook[0] === 'a' || rook[0] === 'h');
+
+const standardLetter = (rook: string) => {
+  const letter = rook[0] === 'h' ? 'k' : 'q';
+  return rook[1] === '1' ? letter.toUpperCase() : letter;
+};
+
+// Writes rights as "KQkq" when standard chess could have them, else as Shredder-FEN file letters, kingside first.
+const formatCastling = (pieces: PiecePlacement, rooks: string[]): string => {
+  const sorted = [...rooks].sort((a, b) => (a[1] === b[1] ? fileIndex(b) - fileIndex(a) : a[1] === '1' ? -1 : 1));
+  if (sorted.every(rook => isStandardRight(pieces, rook))) return sorted.map(standardLetter).join('');
+  return sorted.map(rook => (rook[1] === '1' ? rook[0].toUpperCase() : rook[0])).join('');
+};
+
+/**
+ * Rewrites the castling field of a Chess960 start position into the form
+ * used throughout the app: "KQkq" letters where standard chess could have
+ * the same rights, Shredder-FEN file letters otherwise.
+ */
+export const normalizeChess960Fen = (fen: string): string => {
+  const rooks = castlingRooks(fen);
+  return withCastling(fen, formatCastling(parseFen(fen).pieces, rooks));
+};
+
+// Whether the position has castling rights that only Chess960 rules can play.
+export const hasChess960Castling = (fen: string): boolean => SHREDDER_CASTLING_REGEX.test(castlingField(fen));
+
+/**
+ * The FEN with only the castling rights chess.js understands. Chess960
+ * positions lose the rights it cannot play, so move lists and engine
+ * searches from them leave out those castling moves.
+ */
+export const toChessJsFen = (fen: string): string => {
+  if (!hasChess960Castling(fen)) return fen;
+  const { pieces } = parseFen(fen);
+  return withCastling(fen, castlingRooks(fen).filter(rook => isStandardRight(pieces, rook)).map(standardLetter).join(''));
+};
+
+export const createChess = (fen: string): Chess => new Chess(toChessJsFen(fen));
+
+const squaresBetween = (a: string, b: string): Square[] => {
+  const [lo, hi] = [fileIndex(a), fileIndex(b)].sort((x, y) => x - y);
+  return [...FILES.slice(lo, hi + 1)].map(f => toSquare(f, a[1]));
+};
+
+// Chess960 castling with the given rook: king to the g- or c-file, rook next to it on the inside. `to` is the king's destination.
+const castle = (fen: string, rook: Square): LineMove | null => {
+  const position = parseFen(fen);
+  const { pieces, turn } = position;
+  const king = kingSquare(pieces, turn);
+  if (!king) return null;
+  const rank = king[1];
+  const kingside = fileIndex(rook) > fileIndex(king);
+  const kingTo = `${kingside ? 'g' : 'c'}${rank}`;
+  const rookTo = `${kingside ? 'f' : 'd'}${rank}`;
+
+  const span = [...squaresBetween(king, kingTo), ...squaresBetween(rook, rookTo)];
+  if (span.some(sq => pieces[sq] && sq !== king && sq !== rook)) return null;
+  // The king may not be in check or cross an attacked square; the castling rook cannot shield it.
+  const board = createChess(fen);
+  board.remove(rook);
+  const them = turn === 'w' ? 'b' : 'w';
+  if (squaresBetween(king, kingTo).some(sq => board.isAttacked(sq, them))) return null;
+
+  const next: PiecePlacement = { ...pieces };
+  delete next[king];
+  delete next[rook];
+  next[kingTo] = `${turn}K`;
+  next[rookTo] = `${turn}R`;
+  const rights = castlingRooks(fen).filter(r => r[1] !== rank);
+  const after = withCastling(
+    buildFen({
+      pieces: next,
+      turn: them,
+      castling: '',
+      enPassant: '',
+      halfmoves: position.halfmoves + 1,
+      fullmoves: position.fullmoves + (turn === 'b' ? 1 : 0)
+    }),
+    formatCastling(next, rights)
+  );
+  const check = createChess(after);
+  const san = `${kingside ? 'O-O' : 'O-O-O'}${check.isCheckmate() ? '#' : check.inCheck() ? '+' : ''}`;
+  return { san, from: king, to: kingTo, fen: after };
+};
+
+/**
+ * Plays a move in a position with Chess960 castling rights. Castling is
+ * given as "O-O"/"O-O-O", or by moving the king onto its rook or to the g-
+ * or c-file; other moves go through chess.js, after which the rights of a
+ * moved king or a moved or captured rook are dropped. Null when illegal.
+ */
+export const playChess960Move = (fen: string, move: MoveInput): LineMove | null => {
+  const { pieces, turn } = parseFen(fen);
+  const king = kingSquare(pieces, turn);
+  const ownRooks = castlingRooks(fen).filter(r => pieces[r]?.[0] === turn);
+  const rookOnSide = (kingside: boolean) => ownRooks.find(r => king && (fileIndex(r) > fileIndex(king)) === kingside);
+
+  if (typeof move === 'string') {
+    const castling = move.replace(/[+#!?]+$/, '').replace(/0/g, 'O');
+    if (castling === 'O-O' || castling === 'O-O-O') {
+      const rook = rookOnSide(castling === 'O-O');
+      return rook ? castle(fen, rook) : null;
+    }
+  } else if (move.from === king) {
+    const rook = ownRooks.find(r => r === move.to);
+    if (rook) return castle(fen, rook);
+  }
+
+  const chess = createChess(fen);
+  let played;
+  try {
+    played = chess.move(move);
+  } catch (e) {
+    // A king dragged to its castling square when that is not also a normal king move.
+    const target = typeof move === 'string' ? null : move;
+    const rook = target && target.from === king && target.to[1] === king?.[1] && /^[gc]/.test(target.to)
+      ? rookOnSide(target.to[0] === 'g')
+      : undefined;
+    return rook ? castle(fen, rook) : null;
+  }
+  const rights = castlingRooks(fen).filter(r =>
+    !(played.piece === 'k' && r[1] === king?.[1] && pieces[r]?.[0] === turn) && r !== played.from && r !== played.to
+  );
+  const after = chess.fen();
+  return { san: played.san, from: played.from, to: played.to, fen: withCastling(after, formatCastling(parseFen(after).pieces, rights)) };
+};
@@ -6,12 +6,58 @@ export interface ChessMove {
   fen: string;
 }
 
+export interface MoveTreeNode {
+  id: string;
+  san: string; // empty for the root node
+  fen: string; // position after the move
+  ply: number; // 0-based ply from the start position, -1 for the root
+  comment?: string;
+  nags?: number[];
+  children: MoveTreeNode[]; // children[0] continues the line, the rest are side variations
+}
+
+export interface MoveTree {
+  headers: Record<string, string>;
+  root: MoveTreeNode; // holds the start position and the game comment
+}
+
 export interface AnalysisPhase {
   score: number; // 0-100
   feedback: string;
   errors: string[];
 }
 
+export type MoveClassification = 'brilliant' | 'good' | 'inaccuracy' | 'mistake' | 'blunder';
+
+export interface MoveAnnotation {
+  ply: number; // 0-based index into the move history
+  san: string;
+  classification: MoveClassification;
+  comment: string;
+  betterMove?: string;
+}
+
+// A concrete line the coach recommends, checked to be legal from `fen`.
+export interface MoveSuggestion {
+  fen: string;
+  moves: string[]; // SAN
+  description?: string;
+}
+
+export interface LineMove {
+  san: string;
+  from: string;
+  to: string;
+  fen: string; // position after the move
+}
+
+// A suggested line shown on the board without adding it to the game.
+export interface LinePreview {
+  suggestion: MoveSuggestion;
+  moves: LineMove[]; // the legal part of the line
+  step: number; // moves played on the board, 0 for the start position
+}
+
 export interface FullAnalysis {
   opening: AnalysisPhase;
   middlegame: AnalysisPhase;
@@ -19,22 +65,286 @@ export interface FullAnalysis {
   endgame: AnalysisPhase;
   overallAdvice: string;
   referencedBooks: string[];
+  moveAnnotations: MoveAnnotation[];
+  suggestions?: MoveSuggestion[]; // missing in analyses saved before suggestions existed
+  timeManagement?: AnalysisPhase; // only for games with clock data
+}
+
+// A numbered move cited in coach text, checked against the game.
+export interface MoveReference {
+  text: string; // as written, e.g. "12...Nxe4"
+  index: number; // offset in the text
+  ply: number;
+  san: string; // the move as played, or normalised when legal
+  status: 'played' | 'alternative' | 'misnumbered' | 'illegal'; // alternative: legal there but not played
+  correction?: string; // for misnumbered references, the label of the move as played, e.g. "14... Nxe4"
+}
+
+export interface TimeControl {
+  initialSeconds: number;
+  incrementSeconds: number;
+}
+
+// Clock reading after one main-line ply, from a [%clk] comment.
+export interface MoveClock {
+  ply: number;
+  remainingSeconds: number;
+  spentSeconds: number | null; // null when the previous reading for that side is unknown
+  timeTrouble: boolean;
+}
+
+export interface ClockProfile {
+  timeControl: TimeControl | null; // null when the TimeControl header is missing or not a clock control
+  clocks: (MoveClock | null)[]; // indexed by ply, null for moves without a clock comment
+}
+
+export interface EngineEvaluation {
+  fen: string;
+  scoreCp: number | null; // centipawns from White's point of view
+  mate: number | null; // moves until mate, positive when White mates
+  bestLine: string[]; // SAN, starting from `fen`
+  depth: number;
+  engine: string;
+}
+
+export interface EngineSearchOptions {
+  depth?: number;
+  timeLimitMs?: number;
+}
+
+export interface ChessEngine {
+  name: string;
+  evaluate: (fen: string, options?: EngineSearchOptions) => Promise<EngineEvaluation>;
+  dispose: () => void;
+}
+
+// Lichess variant keys; "other" for names we don't recognise.
+export type GameVariant =
+  | 'standard'
+  | 'chess960'
+  | 'fromPosition'
+  | 'crazyhouse'
+  | 'atomic'
+  | 'antichess'
+  | 'kingOfTheHill'
+  | 'threeCheck'
+  | 'horde'
+  | 'racingKings'
+  | 'bughouse'
+  | 'other';
+
+export interface LichessPlayer {
+  user?: { name: string; id?: string }; // missing for anonymous players and the AI
+  rating?: number;
+  aiLevel?: number;
 }
 
 export interface LichessGameSummary {
   id: string;
   players: {
-    white: { user: { name: string } };
-    black: { user: { name: string } };
+    white: LichessPlayer;
+    black: LichessPlayer;
   };
   createdAt: number;
   status: string;
   variant: string;
+  rated?: boolean;
+  speed?: string;
+  perf?: string;
+  winner?: 'white' | 'black';
+}
+
+export type OnlineGameSource = 'lichess' | 'chesscom';
+
+// A game listed by an online source, in the same shape for every source.
+export interface OnlineGameSummary {
+  source: OnlineGameSource;
+  id: string;
+  white: { name: string; rating?: number };
+  black: { name: string; rating?: number };
+  createdAt: number; // ms timestamp
+  status: string;
+  variant: string;
+  speed?: string;
+  rated?: boolean;
+  pgn?: string; // set when the listing already includes the full PGN
+}
+
+export interface OnlineGamesPage {
+  games: OnlineGameSummary[];
+  nextUntil: number | null; // pass as `until` to load the next page; null when there are no more games
+  nextUntilId?: string; // pass as `untilId` with nextUntil, for cursors that can end inside a group of games with the same time
+}
+
+export interface OnlineGamesOptions {
+  until?: number; // only games before this ms timestamp (pagination cursor)
+  untilId?: string; // also games at exactly `until` that sort after this game id
+  max?: number;
+  signal?: AbortSignal;
+  onGame?: (game: OnlineGameSummary) => void; // called as each game arrives
+}
+
+export type LichessPerfType = 'ultraBullet' | 'bullet' | 'blitz' | 'rapid' | 'classical' | 'correspondence';
+
+export interface LichessGameFilters {
+  perfType?: LichessPerfType;
+  rated?: boolean;
+  color?: PlayerColor;
+  opponent?: string;
+  since?: number; // ms timestamps, inclusive
+  until?: number;
+  analysed?: boolean; // only games with a Lichess computer analysis
+}
+
+export interface PgnDatabaseGame {
+  index: number; // position in the uploaded file
+  headers: Record<string, string>;
+  pgn: string;
+  plyCount: number;
+  error?: string; // set when the game could not be parsed
+}
+
+export interface EcoOpening {
+  eco: string; // e.g. "C50"
+  name: string;
+  moves: string[]; // SAN from the initial position
+}
+
+export interface OpeningClassification {
+  opening: EcoOpening | null; // deepest named line the game reached, null before any
+  bookPlies: number; // leading plies that stay inside known theory
+  leftTheoryAt: number | null; // ply of the first move out of book, null while still in book
+}
+
+export interface BookMove {
+  san: string;
+  opening: EcoOpening; // named line this move heads into
 }
 
 export interface ChatMessage {
   role: 'user' | 'assistant';
   content: string;
+  status?: 'streaming' | 'stopped' | 'error'; // unset once a reply is complete
+  error?: string;
+  suggestions?: MoveSuggestion[]; // lines recommended in an assistant reply
+}
+
+export type InputMode = 'manual' | 'fen' | 'pgn' | 'lichess' | 'chesscom';
+
+export interface LibraryGame {
+  id: string;
+  source: InputMode;
+  headers: Record<string, string>;
+  pgn: string; // full PGN including side variations
+  analysis: FullAnalysis | null;
+  chat: ChatMessage[];
+  tags: string[];
+  createdAt: number;
+  updatedAt: number;
+}
+
+export type PlayerColor = 'white' | 'black';
+
+// The side the user played, so the coach can focus on their decisions.
+export interface PlayerPerspective {
+  color: PlayerColor;
+  rating?: number; // from the PGN Elo headers
+}
+
+export type GamePhase = 'opening' | 'middlegame' | 'tactics' | 'endgame';
+
+// One game of a profile report, seen from the reported player's side.
+export interface PlayerGameAnalysis {
+  headers: Record<string, string>;
+  color: PlayerColor;
+  score: number; // 1 win, 0.5 draw, 0 loss
+  analysis: FullAnalysis;
 }
 
-export type InputMode = 'manual' | 'pgn' | 'lichess';
+export interface ResultStats {
+  label: string;
+  games: number;
+  wins: number;
+  draws: number;
+  losses: number;
+}
+
+export interface TrainingPlanItem {
+  focus: string;
+  reason: string;
+  exercises: string[];
+}
+
+export interface PlayerReport {
+  username: string;
+  gamesAnalyzed: number;
+  phaseAverages: Record<GamePhase, number>;
+  weakestPhase: GamePhase;
+  moveErrors: Record<'inaccuracy' | 'mistake' | 'blunder', number>; // per game, the player's own moves only
+  tacticalMisses: string[]; // recurring themes, most frequent first
+  losingOpenings: ResultStats[];
+  byColor: ResultStats[];
+  byTimeControl: ResultStats[];
+  trainingPlan: TrainingPlanItem[]; // highest priority first
+}
+
+export type PuzzleResult = 'solved' | 'hinted' | 'failed'; // first try unaided, needed help or retries, revealed
+
+export interface PuzzleReview {
+  dueAt: number;
+  intervalDays: number; // 0 until first solved
+  ease: number; // interval multiplier after an unaided solve
+  lapses: number;
+  lastResult?: PuzzleResult;
+}
+
+// A position where a player went wrong, with the move they should have played.
+export interface Puzzle {
+  id: string; // `${gameId}#${ply}`
+  gameId: string;
+  ply: number;
+  fen: string; // position before the mistake, player to move
+  solution: string; // SAN
+  playedSan: string;
+  classification: MoveClassification;
+  comment: string;
+  white: string;
+  black: string;
+  createdAt: number;
+  review: PuzzleReview;
+}
+
+export type PlayStrength = 'beginner' | 'casual' | 'club' | 'strong';
+
+export interface PlayResult {
+  result: '1-0' | '0-1' | '1/2-1/2';
+  reason: 'checkmate' | 'stalemate' | 'threefold repetition' | 'fifty-move rule' | 'insufficient material';
+}
+
+export type LlmProviderId = 'gemini' | 'openai' | 'mock';
+
+export interface LlmSettings {
+  provider: LlmProviderId;
+  model: string;
+  baseUrl: string; // OpenAI-compatible endpoints only
+  apiKey: string; // empty means the build-time key (Gemini) or no auth
+}
+
+export interface LlmJsonRequest {
+  systemInstruction: string;
+  prompt: string;
+  schema: Record<string, unknown>; // JSON Schema of the expected response
+}
+
+export interface LlmChatRequest {
+  systemInstruction: string;
+  messages: ChatMessage[];
+  signal?: AbortSignal;
+}
+
+export interface LlmProvider {
+  id: LlmProviderId;
+  model: string;
+  generateJson: (request: LlmJsonRequest) => Promise<string>;
+  streamChat: (request: LlmChatRequest) => AsyncGenerator<string>; // yields text chunks as they arrive
+}
@@ -12,7 +12,10 @@ export default defineConfig(({ mode }) => {
       plugins: [react()],
       define: {
         'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
-        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)
+        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY),
+        'process.env.STOCKFISH_URL': JSON.stringify(env.STOCKFISH_URL),
+        'process.env.LICHESS_URL': JSON.stringify(env.LICHESS_URL),
+        'process.env.CHESSCOM_URL': JSON.stringify(env.CHESSCOM_URL)
       },
       resolve: {
         alias: {